@@ -0,0 +1,27 @@
+import Database from 'better-sqlite3';
+import { migrate, pendingMigrations, schemaVersion } from '../lib/migrate';
+
+// Applies pending schema migrations without starting the server.
+//   npm run db.migrate                      migrate ./invoicing.db
+//   npm run db.migrate -- path/to/file.db   migrate another database
+//   npm run db.migrate -- --status          only list what would be applied
+
+const args = process.argv.slice(2);
+const file = args.find(arg => !arg.startsWith('--')) ?? 'invoicing.db';
+const db = new Database(file);
+
+try {
+  if (args.includes('--status')) {
+    const pending = pendingMigrations(db);
+    console.log(`${file}: schema version ${schemaVersion(db)}, ${pending.length} pending`);
+    for (const migration of pending) console.log(`  ${migration.version}: ${migration.name}`);
+  } else {
+    const applied = migrate(db);
+    console.log(`${file}: ${applied.length ? `applied ${applied.length} migration(s)` : 'already up to date'}, schema version ${schemaVersion(db)}`);
+  }
+} catch (error) {
+  console.error('Migration failed:', error);
+  process.exitCode = 1;
+} finally {
+  db.close();
+}
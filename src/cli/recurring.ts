@@ -0,0 +1,20 @@
+import { getBusinessProfile } from '../lib/business';
+import { generateDueInvoices } from '../lib/recurring';
+
+// Generates the recurring invoices that are due, e.g. from cron when the server runs with RECURRING_SCHEDULER=off.
+// Safe to run at any time, also next to the server: a period is never invoiced twice.
+//   npm run invoices.recurring
+
+try {
+  process.loadEnvFile();
+} catch {
+  // No .env file; the business details come from the environment alone.
+}
+
+const { created, failed } = generateDueInvoices(getBusinessProfile({ get: key => process.env[key] }));
+for (const invoice of created) {
+  console.log(`Recurring invoice #${invoice.recurringInvoiceId}, ${invoice.period}: ${invoice.invoiceNumber ?? `draft #${invoice.id}`}`);
+}
+for (const { recurringInvoiceId, error } of failed) console.error(`Recurring invoice #${recurringInvoiceId} failed: ${error}`);
+console.log(`${created.length} invoice(s) generated, ${failed.length} failed.`);
+if (failed.length) process.exitCode = 1;
@@ -0,0 +1,19 @@
+import { component$ } from '@builder.io/qwik';
+import { INDIAN_STATES } from '~/lib/gst';
+import type { Customer } from '~/lib/types';
+
+// The inputs shared by the add and edit customer forms.
+export const CustomerFields = component$<{ customer?: Customer; action: any }>(({ customer, action }) => (<>
+    <label>Full Name:</label> <input name="name" value={customer?.name} required />
+    <label>Phone Number:</label> <input name="phone" value={customer?.phone} required />
+    {action.value?.fieldErrors?.phone && <p class="field-error">{action.value.fieldErrors.phone}</p>}
+    <label>Email:</label> <input name="email" type="email" value={customer?.email ?? ''} />
+    <label>Address:</label> <input name="address" value={customer?.address ?? ''} />
+    <label>State (Place of Supply):</label>
+    <select name="state">
+        <option value="">-- Select state --</option>
+        {INDIAN_STATES.map(s => <option key={s.code} value={s.code} selected={customer?.state === s.code}>{`${s.code} - ${s.name}`}</option>)}
+    </select>
+    <label>GSTIN:</label> <input name="gstin" value={customer?.gstin ?? ''} placeholder="Leave blank for unregistered customers" />
+    {action.value?.fieldErrors?.gstin && <p class="field-error">{action.value.fieldErrors.gstin}</p>}
+</>));
@@ -0,0 +1,61 @@
+import { $, component$, useSignal, useTask$ } from '@builder.io/qwik';
+import type { QRL } from '@builder.io/qwik';
+import type { Customer } from '~/lib/types';
+
+const MIN_SEARCH_LENGTH = 2;
+
+// Search box with a dropdown of matching customers, see GET /customers/search.
+// Lookups start after a short pause in typing, and a newer search cancels the one still in flight.
+export const CustomerSearch = component$<{ onSelect$: QRL<(customer: Customer) => void> }>(({ onSelect$ }) => {
+    const term = useSignal('');
+    const results = useSignal<Customer[] | null>(null);
+    const highlighted = useSignal(0);
+
+    useTask$(({ track, cleanup }) => {
+        const q = track(() => term.value.trim());
+        highlighted.value = 0;
+        if (q.length < MIN_SEARCH_LENGTH) {
+            results.value = null;
+            return;
+        }
+        const controller = new AbortController();
+        const timer = setTimeout(async () => {
+            try {
+                const response = await fetch(`/customers/search?q=${encodeURIComponent(q)}`, { signal: controller.signal });
+                results.value = await response.json();
+            } catch {
+                // Superseded by a newer search.
+            }
+        }, 200);
+        cleanup(() => {
+            clearTimeout(timer);
+            controller.abort();
+        });
+    });
+
+    const choose = $((customer: Customer) => {
+        results.value = null;
+        return onSelect$(customer);
+    });
+
+    return (
+        <div class="autocomplete">
+            <input type="text" placeholder="Phone number, name or email" bind:value={term} autoComplete="off"
+                onKeyDown$={(event) => {
+                    const count = results.value?.length ?? 0;
+                    if (event.key === 'ArrowDown' && count) highlighted.value = (highlighted.value + 1) % count;
+                    else if (event.key === 'ArrowUp' && count) highlighted.value = (highlighted.value - 1 + count) % count;
+                    else if (event.key === 'Enter' && count) choose(results.value![highlighted.value]);
+                    else if (event.key === 'Escape') results.value = null;
+                }} />
+            {results.value && <ul>
+                {results.value.length === 0 && <li class="empty">No customer found.</li>}
+                {results.value.map((customer, index) => (
+                    <li key={customer.id} class={{ active: index === highlighted.value }} onClick$={() => choose(customer)}>
+                        {customer.name} <small>{[customer.phone, customer.email].filter(Boolean).join(' · ')}</small>
+                    </li>
+                ))}
+            </ul>}
+        </div>
+    );
+});
@@ -0,0 +1,24 @@
+import { $, createContextId, useContext } from '@builder.io/qwik';
+import { useNavigate } from '@builder.io/qwik-city';
+import { useNotify } from '~/components/notification/notification';
+import type { Discount } from '~/lib/discounts';
+import type { Customer, InvoiceItem } from '~/lib/types';
+
+// The invoice being put together across the customer, product and invoice pages.
+// `draftId` is set while a saved draft is being edited. `discount` is the invoice-level discount.
+export interface InvoiceDraft { draftId: number | null; customer: Customer | null; items: InvoiceItem[]; discount: Discount | null; }
+
+// Provided by the layout, so the draft is kept while navigating between pages.
+export const InvoiceDraftContext = createContextId<InvoiceDraft>('invoice-draft');
+
+// Bills the draft to a customer and moves on to picking products.
+export const useSelectCustomer = () => {
+  const draft = useContext(InvoiceDraftContext);
+  const notify = useNotify();
+  const nav = useNavigate();
+  return $((customer: Customer) => {
+    draft.customer = customer;
+    notify(`Customer "${customer.name}" selected.`, 'success');
+    return nav('/products/');
+  });
+};
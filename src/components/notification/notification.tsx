@@ -0,0 +1,23 @@
+import { $, component$, createContextId, useContext } from '@builder.io/qwik';
+
+export type NotificationType = 'success' | 'warning' | 'error';
+export interface NotificationState { message: string; type: NotificationType | ''; visible: boolean; }
+
+// Provided by the layout, so a message survives navigating to another page.
+export const NotificationContext = createContextId<NotificationState>('notification');
+
+// Shows a message at the top of the page for a few seconds.
+export const useNotify = () => {
+  const notification = useContext(NotificationContext);
+  return $((message: string, type: NotificationType) => {
+    notification.message = message;
+    notification.type = type;
+    notification.visible = true;
+    setTimeout(() => { notification.visible = false }, 3000);
+  });
+};
+
+export const Notification = component$(() => {
+  const notification = useContext(NotificationContext);
+  return notification.visible ? <div class={`notification ${notification.type}`}>{notification.message}</div> : null;
+});
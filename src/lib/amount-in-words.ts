@@ -0,0 +1,31 @@
+// Spells out amounts the way Indian tax invoices do, using the lakh/crore grouping.
+
+const ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowHundred = (n: number) => n < 20 ? ONES[n] : [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(' ');
+
+const belowThousand = (n: number) => [
+  n >= 100 ? `${ONES[Math.floor(n / 100)]} Hundred` : '',
+  belowHundred(n % 100),
+].filter(Boolean).join(' ');
+
+export const numberToWords = (n: number): string => {
+  if (n === 0) return 'Zero';
+  const parts = [
+    n >= 10000000 ? `${numberToWords(Math.floor(n / 10000000))} Crore` : '',
+    Math.floor(n / 100000) % 100 ? `${belowHundred(Math.floor(n / 100000) % 100)} Lakh` : '',
+    Math.floor(n / 1000) % 100 ? `${belowHundred(Math.floor(n / 1000) % 100)} Thousand` : '',
+    belowThousand(n % 1000),
+  ];
+  return parts.filter(Boolean).join(' ');
+};
+
+// Takes paise, e.g. 123450 -> "Rupees One Thousand Two Hundred Thirty Four and Fifty Paise Only"
+export const amountInWords = (amount: number) => {
+  const totalPaise = Math.abs(amount);
+  const rupees = Math.floor(totalPaise / 100);
+  const paise = totalPaise % 100;
+  return `Rupees ${numberToWords(rupees)}${paise ? ` and ${belowHundred(paise)} Paise` : ''} Only`;
+};
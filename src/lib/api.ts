@@ -0,0 +1,82 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { RequestEvent, RequestHandler } from '@builder.io/qwik-city';
+import type { EnvGetter } from '@builder.io/qwik-city/middleware/request-handler';
+import type { z } from 'zod';
+import { InvoiceError } from '~/lib/invoices';
+import { StockError } from '~/lib/stock';
+
+// The JSON API under /api/v1, for other tools (POS terminals, accounting sync) to use the same data and rules
+// as the pages. Every failure is answered with `{ error: { message, fieldErrors? } }` and a matching status.
+
+export type FieldErrors = Record<string, string>;
+
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string, readonly fieldErrors?: FieldErrors) {
+    super(message);
+  }
+}
+
+// Keys are configured as a comma-separated list, so a key can be replaced without locking other clients out.
+export const apiKeys = (env: EnvGetter) => (env.get('API_KEYS') ?? '').split(',').map(key => key.trim()).filter(Boolean);
+
+const digest = (key: string) => createHash('sha256').update(key).digest();
+
+// Compared as digests of equal length, in constant time.
+export const isValidApiKey = (key: string | null, keys: string[]) =>
+  !!key && keys.reduce((valid, candidate) => timingSafeEqual(digest(candidate), digest(key)) || valid, false);
+
+// Sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+export const requestApiKey = (headers: Headers) =>
+  headers.get('x-api-key') ?? headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? null;
+
+// Field errors keyed by the dotted path of the offending field, first message only, as the page forms show them.
+export const zodFieldErrors = (error: z.ZodError): FieldErrors => {
+  const errors: FieldErrors = {};
+  for (const issue of error.issues) errors[issue.path.join('.') || 'body'] ??= issue.message;
+  return errors;
+};
+
+export const validationError = (fieldErrors: FieldErrors) => new ApiError(400, 'The request has invalid fields.', fieldErrors);
+
+// The JSON body, validated against the same schema the page action uses.
+export const readBody = async <T extends z.ZodTypeAny>(event: RequestEvent, schema: T): Promise<z.output<T>> => {
+  if (!event.request.headers.get('content-type')?.startsWith('application/json')) {
+    throw new ApiError(415, 'Send the request body as application/json.');
+  }
+  let body: unknown;
+  try {
+    body = await event.request.json();
+  } catch {
+    throw new ApiError(400, 'The request body is not valid JSON.');
+  }
+  const result = schema.safeParse(body);
+  if (!result.success) throw validationError(zodFieldErrors(result.error));
+  return result.data;
+};
+
+export const idParam = (event: RequestEvent, name = 'id') => {
+  const id = Number(event.params[name]);
+  if (!Number.isInteger(id) || id <= 0) throw new ApiError(404, 'Not found.');
+  return id;
+};
+
+export const notFound = (what: string) => new ApiError(404, `${what} not found.`);
+
+// Wraps an endpoint: whatever the handler returns is sent as JSON, with the status it set (200 unless changed),
+// and errors become the standard error response. Broken business rules are conflicts (409).
+export const apiHandler = (handler: (event: RequestEvent) => unknown): RequestHandler => async (event) => {
+  event.headers.set('Cache-Control', 'no-store');
+  try {
+    const body = await handler(event);
+    event.json(event.status(), body);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      event.json(error.status, { error: { message: error.message, ...(error.fieldErrors ? { fieldErrors: error.fieldErrors } : {}) } });
+    } else if (error instanceof InvoiceError || error instanceof StockError) {
+      event.json(409, { error: { message: error.message } });
+    } else {
+      console.error(`API request ${event.method} ${event.url.pathname} failed:`, error);
+      event.json(500, { error: { message: 'Something went wrong.' } });
+    }
+  }
+};
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import db from '~/lib/db';
+import type { AuditEntity, AuditEntry, AuditSource } from '~/lib/types';
+
+// The audit log: who changed what, and the record before and after. Entries are written by the lib functions
+// that make the change, inside the same transaction, so a change and its entry are saved together or not at all.
+
+// Who is making a change: a logged-in user on the web pages, a JSON API client, or the app itself.
+export interface Actor { userId: number | null; source: AuditSource; }
+
+export const API_ACTOR: Actor = { userId: null, source: 'api' };
+export const SYSTEM_ACTOR: Actor = { userId: null, source: 'system' };
+
+export interface AuditChange { entity: AuditEntity; entityId: number; action: string; before?: unknown; after?: unknown; }
+
+const toJSON = (snapshot: unknown) => snapshot === undefined || snapshot === null ? null : JSON.stringify(snapshot);
+
+// Call from inside the transaction that makes the change.
+export const recordAudit = (actor: Actor, { entity, entityId, action, before, after }: AuditChange) => db.prepare(`
+  INSERT INTO audit_log (entity, entityId, action, before, after, userId, source, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+`).run(entity, entityId, action, toJSON(before), toJSON(after), actor.userId, actor.source, new Date().toISOString());
+
+// --- Viewer ---
+
+export const AUDIT_PAGE_SIZE = 50;
+
+const optionalDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().catch(undefined);
+
+// Filters come from URL query params; anything malformed is ignored, like the invoice history.
+export const auditQuerySchema = z.object({
+  entity: z.enum(['customer', 'product', 'invoice', 'credit_note', 'quotation', 'recurring_invoice', 'user', 'settings']).optional().catch(undefined),
+  entityId: z.coerce.number().int().positive().optional().catch(undefined),
+  action: z.string().trim().optional().catch(undefined),
+  userId: z.coerce.number().int().positive().optional().catch(undefined),
+  from: optionalDate,
+  to: optionalDate,
+  page: z.coerce.number().int().min(1).catch(1),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+export const parseAuditQuery = (params: URLSearchParams) =>
+  auditQuerySchema.parse(Object.fromEntries([...params].filter(([, value]) => value !== '')));
+
+export interface AuditPage { entries: AuditEntry[]; total: number; page: number; pageCount: number; }
+
+// Newest first.
+export const searchAuditLog = (query: AuditQuery): AuditPage => {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (query.entity) { conditions.push('a.entity = ?'); params.push(query.entity); }
+  if (query.entityId) { conditions.push('a.entityId = ?'); params.push(query.entityId); }
+  if (query.action) { conditions.push('a.action = ?'); params.push(query.action); }
+  if (query.userId) { conditions.push('a.userId = ?'); params.push(query.userId); }
+  if (query.from) { conditions.push('date(a.createdAt) >= ?'); params.push(query.from); }
+  if (query.to) { conditions.push('date(a.createdAt) <= ?'); params.push(query.to); }
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const { total } = db.prepare(`SELECT COUNT(*) as total FROM audit_log a ${where}`).get(...params) as { total: number };
+  const pageCount = Math.max(Math.ceil(total / AUDIT_PAGE_SIZE), 1);
+  const page = Math.min(query.page, pageCount);
+  const entries = db.prepare(`
+    SELECT a.*, u.name as userName FROM audit_log a LEFT JOIN users u ON a.userId = u.id
+    ${where}
+    ORDER BY a.id DESC
+    LIMIT ? OFFSET ?
+  `).all(...params, AUDIT_PAGE_SIZE, (page - 1) * AUDIT_PAGE_SIZE) as AuditEntry[];
+  return { entries, total, page, pageCount };
+};
+
+export interface AuditFieldChange { field: string; before: string; after: string; }
+
+// The top-level fields that differ between the two snapshots, formatted for display.
+export const auditChanges = (entry: Pick<AuditEntry, 'before' | 'after'>): AuditFieldChange[] => {
+  const before = (entry.before ? JSON.parse(entry.before) : {}) as Record<string, unknown>;
+  const after = (entry.after ? JSON.parse(entry.after) : {}) as Record<string, unknown>;
+  const show = (value: unknown) => value === undefined ? '' : JSON.stringify(value);
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(field => show(before[field]) !== show(after[field]))
+    .map(field => ({ field, before: show(before[field]), after: show(after[field]) }));
+};
+
+// The actions that have been logged, for the viewer's filter.
+export const auditActions = () => (db.prepare('SELECT DISTINCT action FROM audit_log ORDER BY action').all() as { action: string }[]).map(row => row.action);
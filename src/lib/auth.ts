@@ -0,0 +1,160 @@
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+import { z } from 'zod';
+import { recordAudit } from '~/lib/audit';
+import type { Actor } from '~/lib/audit';
+import db from '~/lib/db';
+import type { Role, User } from '~/lib/types';
+
+// Local user accounts and login sessions. What each role may do is in lib/permissions.ts.
+
+// --- Passwords ---
+// Stored as `scrypt:<salt>:<hash>`, so the scheme can be changed later without losing existing passwords.
+
+const KEY_LENGTH = 64;
+
+export const hashPassword = (password: string) => {
+  const salt = randomBytes(16);
+  return `scrypt:${salt.toString('hex')}:${scryptSync(password, salt, KEY_LENGTH).toString('hex')}`;
+};
+
+export const verifyPassword = (password: string, stored: string) => {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  return timingSafeEqual(scryptSync(password, Buffer.from(salt, 'hex'), expected.length), expected);
+};
+
+// --- Users ---
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const passwordSchema = z.string().min(MIN_PASSWORD_LENGTH, `Use at least ${MIN_PASSWORD_LENGTH} characters`);
+
+// What the add user form posts.
+export const userInputSchema = z.object({
+  username: z.string().trim().toLowerCase().regex(/^[a-z0-9._-]{3,32}$/, 'Use 3-32 letters, digits, dots, dashes or underscores'),
+  name: z.string().trim().min(1),
+  password: passwordSchema,
+  role: z.enum(['admin', 'cashier', 'viewer']),
+});
+
+export type UserInput = z.infer<typeof userInputSchema>;
+
+export const loginInputSchema = z.object({ username: z.string().trim().min(1), password: z.string().min(1) });
+
+export const passwordInputSchema = z.object({ password: passwordSchema });
+
+const USER_COLUMNS = 'id, username, name, role, createdAt, disabledAt';
+
+export const listUsers = () => db.prepare(`SELECT ${USER_COLUMNS} FROM users ORDER BY name COLLATE NOCASE`).all() as User[];
+
+export const findUser = (id: number) => db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`).get(id) as User | undefined;
+
+export const hasUsers = () => !!db.prepare('SELECT 1 FROM users LIMIT 1').get();
+
+export const isUsernameTaken = (username: string) => !!db.prepare('SELECT 1 FROM users WHERE username = ?').get(username);
+
+// Password hashes are never written to the audit log.
+export const createUser = (input: UserInput, actor: Actor) => db.transaction(() => {
+  const id = Number(db.prepare(`
+    INSERT INTO users (username, name, passwordHash, role, createdAt) VALUES (?, ?, ?, ?, ?)
+  `).run(input.username, input.name, hashPassword(input.password), input.role, new Date().toISOString()).lastInsertRowid);
+  recordAudit(actor, { entity: 'user', entityId: id, action: 'create', after: findUser(id) });
+  return id;
+})();
+
+// Thrown when a user change would break an account rule. The message is shown to the user.
+export class UserError extends Error {}
+
+// There must always be an active admin left to manage the others.
+const requireOtherAdmin = (id: number) => {
+  const others = db.prepare("SELECT COUNT(*) as count FROM users WHERE role = 'admin' AND disabledAt IS NULL AND id != ?").get(id) as { count: number };
+  if (others.count === 0) throw new UserError('There must be at least one active admin.');
+};
+
+export const changeUserRole = (id: number, role: Role, actor: Actor) => db.transaction(() => {
+  const user = findUser(id);
+  if (!user) return false;
+  if (user.role === role) return true;
+  if (user.role === 'admin') requireOtherAdmin(id);
+  db.prepare('UPDATE users SET role = ? WHERE id = ?').run(role, id);
+  recordAudit(actor, { entity: 'user', entityId: id, action: 'change_role', before: user, after: findUser(id) });
+  return true;
+})();
+
+// Disabled users can't log in, and are logged out everywhere. They stay on the invoices they created.
+export const disableUser = (id: number, actor: Actor) => db.transaction(() => {
+  const user = findUser(id);
+  if (!user) return false;
+  if (user.role === 'admin') requireOtherAdmin(id);
+  db.prepare('UPDATE users SET disabledAt = ? WHERE id = ?').run(new Date().toISOString(), id);
+  db.prepare('DELETE FROM sessions WHERE userId = ?').run(id);
+  recordAudit(actor, { entity: 'user', entityId: id, action: 'disable', before: user, after: findUser(id) });
+  return true;
+})();
+
+export const enableUser = (id: number, actor: Actor) => db.transaction(() => {
+  const user = findUser(id);
+  if (!user) return false;
+  db.prepare('UPDATE users SET disabledAt = NULL WHERE id = ?').run(id);
+  recordAudit(actor, { entity: 'user', entityId: id, action: 'enable', before: user, after: findUser(id) });
+  return true;
+})();
+
+// Changing a password logs the user out everywhere.
+export const setPassword = (id: number, password: string, actor: Actor) => db.transaction(() => {
+  if (db.prepare('UPDATE users SET passwordHash = ? WHERE id = ?').run(hashPassword(password), id).changes === 0) return false;
+  db.prepare('DELETE FROM sessions WHERE userId = ?').run(id);
+  recordAudit(actor, { entity: 'user', entityId: id, action: 'reset_password' });
+  return true;
+})();
+
+// The active user with this username and password, if any.
+export const authenticate = (username: string, password: string) => {
+  const row = db.prepare(`SELECT ${USER_COLUMNS}, passwordHash FROM users WHERE username = ?`).get(username.trim()) as (User & { passwordHash: string }) | undefined;
+  if (!row || row.disabledAt || !verifyPassword(password, row.passwordHash)) return null;
+  const { passwordHash: _, ...user } = row;
+  return user as User;
+};
+
+// --- Sessions ---
+// The cookie holds a random token; only its hash is stored.
+
+export const SESSION_COOKIE = 'session';
+export const SESSION_DAYS = 7;
+
+const tokenHash = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export const createSession = (userId: number) => {
+  const token = randomBytes(32).toString('base64url');
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+  db.prepare('DELETE FROM sessions WHERE expiresAt <= ?').run(now.toISOString());
+  db.prepare('INSERT INTO sessions (tokenHash, userId, createdAt, expiresAt) VALUES (?, ?, ?, ?)')
+    .run(tokenHash(token), userId, now.toISOString(), expiresAt.toISOString());
+  return { token, expiresAt };
+};
+
+// The logged-in user for a session cookie, or null when the session is unknown, expired or the user is disabled.
+export const findSessionUser = (token: string | undefined) => {
+  if (!token) return null;
+  const user = db.prepare(`
+    SELECT u.id, u.username, u.name, u.role, u.createdAt, u.disabledAt
+    FROM sessions s JOIN users u ON s.userId = u.id
+    WHERE s.tokenHash = ? AND s.expiresAt > ? AND u.disabledAt IS NULL
+  `).get(tokenHash(token), new Date().toISOString()) as User | undefined;
+  return user ?? null;
+};
+
+export const deleteSession = (token: string) => db.prepare('DELETE FROM sessions WHERE tokenHash = ?').run(tokenHash(token));
+
+// The root layout's middleware puts the logged-in user in the request's shared map for loaders and actions.
+export const USER_KEY = 'user';
+
+export const sessionUser = (sharedMap: Map<string, unknown>) => (sharedMap.get(USER_KEY) as User | null | undefined) ?? null;
+
+// The logged-in user as the actor of a change, for the audit log.
+export const sessionActor = (sharedMap: Map<string, unknown>): Actor => ({ userId: sessionUser(sharedMap)?.id ?? null, source: 'web' });
+
+// Where to go after logging in. Only paths on this site are followed.
+export const safeNext = (next: string | null | undefined) => next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
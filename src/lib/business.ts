@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import type { EnvGetter } from '@builder.io/qwik-city/middleware/request-handler';
+import { recordAudit } from '~/lib/audit';
+import type { Actor } from '~/lib/audit';
+import db from '~/lib/db';
+import { GSTIN_PATTERN, INDIAN_STATES } from '~/lib/gst';
+import type { MoneyFormat } from '~/lib/money';
+import type { InsufficientStockPolicy } from '~/lib/stock';
+
+// The seller's own details. What is printed on invoices, the payment terms, currency and locale are edited on the
+// settings page; until they are first saved, the name, address, GSTIN and state come from the environment (or
+// .env). Numbering and the stock policy are only configured in the environment, so each deployment sets them.
+export interface BusinessSettings extends MoneyFormat {
+  name: string; address: string; gstin: string; stateCode: string;
+  logo: string | null; // a PNG or JPEG data URL
+  bankName: string; bankAccountName: string; bankAccountNumber: string; bankIfsc: string; upiId: string;
+  dueDays: number; // payment is due this many days after an invoice is issued
+}
+
+export interface BusinessProfile extends BusinessSettings {
+  invoicePrefix: string; invoiceNumberPadding: number; creditNotePrefix: string;
+  quotationPrefix: string; quotationValidDays: number;
+  insufficientStock: InsufficientStockPolicy;
+}
+
+const INSUFFICIENT_STOCK_POLICIES: InsufficientStockPolicy[] = ['block', 'warn', 'allow'];
+
+// Only PNG and JPEG can be drawn on the PDF.
+const LOGO_PATTERN = /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/]+=*$/;
+
+// About 200 KB of image once base64-encoded.
+const MAX_LOGO_LENGTH = 280_000;
+
+const isSupportedLocale = (locale: string) => {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+export const businessSettingsSchema = z.object({
+  name: z.string().trim().min(1, 'Enter the business name.').max(200),
+  address: z.string().trim().max(500),
+  gstin: z.string().trim().toUpperCase().regex(GSTIN_PATTERN, 'Invalid GSTIN').or(z.literal('')),
+  stateCode: z.string().refine(code => INDIAN_STATES.some(state => state.code === code), 'Choose a state.'),
+  logo: z.string().max(MAX_LOGO_LENGTH, 'The logo must be smaller than 200 KB.').regex(LOGO_PATTERN, 'The logo must be a PNG or JPEG image.').or(z.literal('')),
+  bankName: z.string().trim().max(100),
+  bankAccountName: z.string().trim().max(100),
+  bankAccountNumber: z.string().trim().regex(/^\d{9,18}$/, 'Enter the account number, 9 to 18 digits.').or(z.literal('')),
+  bankIfsc: z.string().trim().toUpperCase().regex(/^[A-Z]{4}0[A-Z0-9]{6}$/, 'Invalid IFSC').or(z.literal('')),
+  upiId: z.string().trim().regex(/^[\w.-]{2,256}@[A-Za-z]{2,64}$/, 'Invalid UPI ID').or(z.literal('')),
+  dueDays: z.coerce.number().int().min(0).max(365),
+  currency: z.string().trim().toUpperCase().refine(code => Intl.supportedValuesOf('currency').includes(code), 'Unknown currency code.'),
+  locale: z.string().trim().refine(isSupportedLocale, 'Unknown locale.'),
+}).superRefine((data, ctx) => {
+  if (data.gstin && !data.gstin.startsWith(data.stateCode)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'GSTIN does not belong to the selected state', path: ['gstin'] });
+  }
+});
+
+export type BusinessSettingsInput = z.infer<typeof businessSettingsSchema>;
+
+const SETTINGS_COLUMNS = 'name, address, gstin, stateCode, logo, bankName, bankAccountName, bankAccountNumber, bankIfsc, upiId, dueDays, currency, locale';
+
+// The saved settings, or undefined until the settings page is first saved.
+export const findBusinessSettings = () =>
+  db.prepare(`SELECT ${SETTINGS_COLUMNS} FROM business_settings WHERE id = 1`).get() as BusinessSettings | undefined;
+
+const envSettings = (env: EnvGetter): BusinessSettings => ({
+  name: env.get('BUSINESS_NAME') ?? 'Qwik Invoicing System',
+  address: env.get('BUSINESS_ADDRESS') ?? '',
+  gstin: env.get('BUSINESS_GSTIN') ?? '',
+  stateCode: env.get('BUSINESS_STATE_CODE') ?? '29',
+  logo: null,
+  bankName: '',
+  bankAccountName: '',
+  bankAccountNumber: '',
+  bankIfsc: '',
+  upiId: '',
+  dueDays: 0,
+  currency: 'INR',
+  locale: 'en-IN',
+});
+
+export const getBusinessProfile = (env: EnvGetter): BusinessProfile => ({
+  ...(findBusinessSettings() ?? envSettings(env)),
+  invoicePrefix: env.get('INVOICE_NUMBER_PREFIX') ?? 'INV',
+  invoiceNumberPadding: Number(env.get('INVOICE_NUMBER_PADDING') ?? 4),
+  creditNotePrefix: env.get('CREDIT_NOTE_PREFIX') ?? 'CN',
+  quotationPrefix: env.get('QUOTATION_PREFIX') ?? 'QT',
+  quotationValidDays: Number(env.get('QUOTATION_VALID_DAYS') ?? 15),
+  insufficientStock: INSUFFICIENT_STOCK_POLICIES.find(policy => policy === env.get('INSUFFICIENT_STOCK')) ?? 'block',
+});
+
+// The logo image itself is kept out of the audit log; the entry only shows whether there is one.
+const auditSnapshot = (settings: BusinessSettings | undefined) => settings && { ...settings, logo: settings.logo ? 'uploaded' : null };
+
+export const saveBusinessSettings = (input: BusinessSettingsInput, actor: Actor) => db.transaction(() => {
+  const before = findBusinessSettings();
+  db.prepare(`
+    INSERT INTO business_settings (id, ${SETTINGS_COLUMNS}, updatedAt, updatedBy)
+    VALUES (1, @name, @address, @gstin, @stateCode, @logo, @bankName, @bankAccountName, @bankAccountNumber, @bankIfsc, @upiId, @dueDays, @currency, @locale, @updatedAt, @updatedBy)
+    ON CONFLICT (id) DO UPDATE SET
+      name = @name, address = @address, gstin = @gstin, stateCode = @stateCode, logo = @logo, bankName = @bankName, bankAccountName = @bankAccountName,
+      bankAccountNumber = @bankAccountNumber, bankIfsc = @bankIfsc, upiId = @upiId, dueDays = @dueDays, currency = @currency, locale = @locale,
+      updatedAt = @updatedAt, updatedBy = @updatedBy
+  `).run({ ...input, logo: input.logo || null, updatedAt: new Date().toISOString(), updatedBy: actor.userId });
+  recordAudit(actor, { entity: 'settings', entityId: 1, action: before ? 'update' : 'create', before: auditSnapshot(before), after: auditSnapshot(findBusinessSettings()) });
+})();
+
+// How customers can pay, as printed on invoices and emails; empty when no bank or UPI details are set.
+export const paymentDetails = (business: BusinessSettings) => [
+  business.bankName && `Bank: ${business.bankName}`,
+  business.bankAccountName && `Account Name: ${business.bankAccountName}`,
+  business.bankAccountNumber && `Account No: ${business.bankAccountNumber}`,
+  business.bankIfsc && `IFSC: ${business.bankIfsc}`,
+  business.upiId && `UPI: ${business.upiId}`,
+].filter((line): line is string => !!line);
@@ -0,0 +1,85 @@
+import { recordAudit } from '~/lib/audit';
+import type { Actor } from '~/lib/audit';
+import type { BusinessProfile } from '~/lib/business';
+import db from '~/lib/db';
+import { canCreditNote, canReceivePayment, invoiceLabel } from '~/lib/invoice-status';
+import { InvoiceError, requireInvoice } from '~/lib/invoices';
+import { proportionOf, savedLine, sumLines } from '~/lib/money';
+import { nextDocumentNumber } from '~/lib/numbering';
+import type { CreditNote, CreditNoteLine } from '~/lib/types';
+
+// Credit notes return goods from an issued invoice. Lines reverse the original invoice lines at the price and
+// tax rate they were sold at, and never for more than was sold (less anything already returned).
+// A returned quantity reverses its share of what the line was charged, discounts and tax included. Shares are
+// taken of the running total returned, so once everything has been returned exactly the line's amounts are reversed.
+
+export const findCreditNoteItems = (creditNoteId: number) => db.prepare(`
+  SELECT cni.invoiceItemId, ii.nameAtSale as name, ii.hsnCodeAtSale as hsnCode, ii.unitAtSale as unit,
+         cni.quantity, cni.priceAtSale as price, cni.taxAtSale as tax, cni.taxableAmount, cni.cgstAmount, cni.sgstAmount, cni.igstAmount
+  FROM credit_note_items cni
+  JOIN invoice_items ii ON cni.invoiceItemId = ii.id
+  WHERE cni.creditNoteId = ?
+  ORDER BY cni.id
+`).all(creditNoteId) as CreditNoteLine[];
+
+const CREDIT_NOTE_COLUMNS = `
+  cn.*, i.invoiceNumber, i.customerId, c.name as customerName
+  FROM credit_notes cn
+  JOIN invoices i ON cn.invoiceId = i.id
+  JOIN customers c ON i.customerId = c.id
+`;
+
+export const findCreditNote = (id: number) => {
+  const creditNote = db.prepare(`SELECT ${CREDIT_NOTE_COLUMNS} WHERE cn.id = ?`).get(id) as Omit<CreditNote, 'items'> | undefined;
+  return creditNote ? { ...creditNote, items: findCreditNoteItems(id) } as CreditNote : null;
+};
+
+// The credit notes raised against one invoice, without their lines.
+export const findInvoiceCreditNotes = (invoiceId: number) =>
+  db.prepare(`SELECT ${CREDIT_NOTE_COLUMNS} WHERE cn.invoiceId = ? ORDER BY cn.createdAt`).all(invoiceId) as Omit<CreditNote, 'items'>[];
+
+export interface CreditNoteInput { reason: string; items: { invoiceItemId: number; quantity: number }[]; }
+
+export const createCreditNote = (invoiceId: number, input: CreditNoteInput, business: BusinessProfile, actor: Actor) => db.transaction(() => {
+  const invoice = requireInvoice(invoiceId);
+  if (!canCreditNote(invoice)) throw new InvoiceError(`Credit notes can only be raised against issued invoices.`);
+
+  const requested = input.items.filter(item => item.quantity > 0);
+  if (requested.length === 0) throw new InvoiceError('Enter a quantity to return for at least one item.');
+
+  const lines = requested.map(({ invoiceItemId, quantity }) => {
+    const item = invoice.items.find(line => line.itemId === invoiceItemId);
+    if (!item) throw new InvoiceError(`This item is not on invoice ${invoiceLabel(invoice)}.`);
+    const returnable = item.quantity - item.creditedQuantity;
+    if (quantity > returnable) throw new InvoiceError(`Only ${returnable} of "${item.name}" can still be returned.`);
+    const reversed = (amount: number) =>
+      proportionOf(amount, item.creditedQuantity + quantity, item.quantity) - proportionOf(amount, item.creditedQuantity, item.quantity);
+    return { item, quantity, ...savedLine(reversed(item.taxableAmount), {
+      cgstAmount: reversed(item.cgstAmount), sgstAmount: reversed(item.sgstAmount), igstAmount: reversed(item.igstAmount),
+    }) };
+  });
+  const totals = sumLines(lines);
+
+  const createdAt = new Date();
+  const creditNoteNumber = nextDocumentNumber(db, { series: 'credit_note', prefix: business.creditNotePrefix, padding: business.invoiceNumberPadding }, createdAt);
+  const result = db.prepare(`
+    INSERT INTO credit_notes (creditNoteNumber, invoiceId, reason, createdAt, taxableAmount, cgstAmount, sgstAmount, igstAmount, totalAmount)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(creditNoteNumber, invoice.id, input.reason, createdAt.toISOString(), totals.taxableAmount, totals.cgstAmount, totals.sgstAmount, totals.igstAmount, totals.totalAmount);
+  const creditNoteId = Number(result.lastInsertRowid);
+
+  const itemStmt = db.prepare(`
+    INSERT INTO credit_note_items (creditNoteId, invoiceItemId, quantity, priceAtSale, taxAtSale, taxableAmount, cgstAmount, sgstAmount, igstAmount)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const { item, quantity, taxableAmount, cgstAmount, sgstAmount, igstAmount } of lines) {
+    itemStmt.run(creditNoteId, item.itemId, quantity, item.price, item.tax, taxableAmount, cgstAmount, sgstAmount, igstAmount);
+  }
+
+  // A credit note that covers the rest of the balance settles the invoice.
+  if (canReceivePayment(invoice) && invoice.amountPaid + invoice.amountCredited + totals.totalAmount >= invoice.totalAmount) {
+    db.prepare("UPDATE invoices SET status = 'paid' WHERE id = ?").run(invoice.id);
+  }
+  recordAudit(actor, { entity: 'credit_note', entityId: creditNoteId, action: 'create', after: findCreditNote(creditNoteId) });
+  return { id: creditNoteId, creditNoteNumber };
+})();
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { toCsv } from '~/lib/csv';
+import { listCustomers } from '~/lib/customers';
+import { DATE_PATTERN } from '~/lib/dates';
+import db from '~/lib/db';
+import { formatAmount } from '~/lib/money';
+import { listProducts } from '~/lib/products';
+
+// CSV downloads for spreadsheets and accountants. Amounts are in rupees with two decimals, as in the forms.
+// Customers and products export with the column names the importer reads.
+
+export const EXPORT_KINDS = ['customers', 'products', 'invoice-lines'] as const;
+
+export type ExportKind = typeof EXPORT_KINDS[number];
+
+const optionalDate = z.string().regex(DATE_PATTERN).optional().catch(undefined);
+
+// Invoice lines are exported for the invoices issued between `from` and `to`, both included.
+export const exportRangeSchema = z.object({ from: optionalDate, to: optionalDate });
+
+export type ExportRange = z.infer<typeof exportRangeSchema>;
+
+interface InvoiceLineRow {
+  invoiceNumber: string; issuedAt: string; status: string; customerName: string; customerPhone: string; customerGstin: string | null;
+  placeOfSupply: string | null; name: string; sku: string | null; hsnCode: string | null; unit: string; quantity: number; price: number;
+  discountAmount: number; invoiceDiscountAmount: number; taxableAmount: number; tax: number; cgstAmount: number; sgstAmount: number; igstAmount: number;
+}
+
+// Drafts have no number or date yet and are left out. Cancelled invoices are included, with their status.
+const invoiceLines = ({ from, to }: ExportRange) => db.prepare(`
+  SELECT i.invoiceNumber, i.issuedAt, i.status, c.name as customerName, c.phone as customerPhone, c.gstin as customerGstin, i.placeOfSupply,
+         ii.nameAtSale as name, p.sku, ii.hsnCodeAtSale as hsnCode, ii.unitAtSale as unit, ii.quantity, ii.priceAtSale as price,
+         ii.discountAmount, ii.invoiceDiscountAmount, ii.priceAtSale * ii.quantity - ii.discountAmount - ii.invoiceDiscountAmount as taxableAmount,
+         ii.taxAtSale as tax, ii.cgstAmount, ii.sgstAmount, ii.igstAmount
+  FROM invoice_items ii
+  JOIN invoices i ON ii.invoiceId = i.id
+  JOIN customers c ON i.customerId = c.id
+  LEFT JOIN products p ON ii.productId = p.id
+  WHERE i.status != 'draft' AND (@from IS NULL OR date(i.issuedAt) >= @from) AND (@to IS NULL OR date(i.issuedAt) <= @to)
+  ORDER BY i.issuedAt, i.id, ii.id
+`).all({ from: from ?? null, to: to ?? null }) as InvoiceLineRow[];
+
+export const exportCsv = (kind: ExportKind, range: ExportRange) => {
+  switch (kind) {
+    case 'customers':
+      return toCsv([
+        { header: 'id', value: c => c.id },
+        { header: 'name', value: c => c.name },
+        { header: 'phone', value: c => c.phone },
+        { header: 'email', value: c => c.email },
+        { header: 'address', value: c => c.address },
+        { header: 'state', value: c => c.state },
+        { header: 'gstin', value: c => c.gstin },
+        { header: 'archivedAt', value: c => c.archivedAt },
+      ], listCustomers());
+    case 'products':
+      return toCsv([
+        { header: 'id', value: p => p.id },
+        { header: 'name', value: p => p.name },
+        { header: 'description', value: p => p.description },
+        { header: 'sku', value: p => p.sku },
+        { header: 'hsnCode', value: p => p.hsnCode },
+        { header: 'unit', value: p => p.unit },
+        { header: 'price', value: p => formatAmount(p.price) },
+        { header: 'tax', value: p => p.tax },
+        { header: 'stock', value: p => p.stock },
+        { header: 'lowStockLevel', value: p => p.lowStockLevel },
+        { header: 'archivedAt', value: p => p.archivedAt },
+      ], listProducts());
+    case 'invoice-lines':
+      return toCsv<InvoiceLineRow>([
+        { header: 'invoiceNumber', value: line => line.invoiceNumber },
+        { header: 'invoiceDate', value: line => line.issuedAt.slice(0, 10) },
+        { header: 'status', value: line => line.status },
+        { header: 'customerName', value: line => line.customerName },
+        { header: 'customerPhone', value: line => line.customerPhone },
+        { header: 'customerGstin', value: line => line.customerGstin },
+        { header: 'placeOfSupply', value: line => line.placeOfSupply },
+        { header: 'product', value: line => line.name },
+        { header: 'sku', value: line => line.sku },
+        { header: 'hsnCode', value: line => line.hsnCode },
+        { header: 'unit', value: line => line.unit },
+        { header: 'quantity', value: line => line.quantity },
+        { header: 'price', value: line => formatAmount(line.price) },
+        { header: 'lineDiscount', value: line => formatAmount(line.discountAmount) },
+        { header: 'invoiceDiscount', value: line => formatAmount(line.invoiceDiscountAmount) },
+        { header: 'taxableValue', value: line => formatAmount(line.taxableAmount) },
+        { header: 'taxRate', value: line => line.tax },
+        { header: 'cgst', value: line => formatAmount(line.cgstAmount) },
+        { header: 'sgst', value: line => formatAmount(line.sgstAmount) },
+        { header: 'igst', value: line => formatAmount(line.igstAmount) },
+        { header: 'total', value: line => formatAmount(line.taxableAmount + line.cgstAmount + line.sgstAmount + line.igstAmount) },
+      ], invoiceLines(range));
+  }
+};
+
+export const exportFileName = (kind: ExportKind, { from, to }: ExportRange) =>
+  kind === 'invoice-lines' && (from || to) ? `${kind}_${from ?? 'start'}_${to ?? 'today'}.csv` : `${kind}.csv`;
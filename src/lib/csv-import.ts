@@ -0,0 +1,163 @@
+import type { z } from 'zod';
+import type { Actor } from '~/lib/audit';
+import { CsvError, csvText, parseCsv } from '~/lib/csv';
+import { checkGstinState, createCustomer, customerInputSchema, findCustomerByPhone, toCustomerFields } from '~/lib/customers';
+import db from '~/lib/db';
+import { INDIAN_STATES } from '~/lib/gst';
+import { normalizePhone } from '~/lib/phone';
+import { createProduct, findProductBySku, newProductInputSchema, toProductFields } from '~/lib/products';
+
+// Customers and products are imported from CSV in two steps: the file is checked and previewed row by row, then
+// imported in one transaction, so either every new row is added or none is. Rows are validated with the same
+// schemas as the add forms. Columns are matched to the form fields by header, in any order, case or spacing
+// ("HSN Code" is hsnCode); other columns are ignored, so an exported file can be imported again.
+// A row for a customer or product that already exists, by phone number or SKU, is skipped.
+
+export const IMPORT_KINDS = ['customers', 'products'] as const;
+
+export type ImportKind = typeof IMPORT_KINDS[number];
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export class ImportError extends Error {}
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'invalid';
+
+// `row` is the row number in a spreadsheet, counting the header as row 1.
+export interface ImportRow { row: number; label: string; status: ImportRowStatus; messages: string[]; }
+
+export interface ImportPreview { kind: ImportKind; columns: string[]; ignoredColumns: string[]; rows: ImportRow[]; counts: Record<ImportRowStatus, number>; }
+
+type RowValues = Record<string, string>;
+
+// One checked row: what's wrong with it, or the record it matches (a phone number or SKU) and how to save it.
+type CheckedRow =
+  | { errors: string[] }
+  | { key: string | null; existing: string | null; save: (actor: Actor) => void };
+
+interface Importer {
+  columns: string[];
+  required: string[];
+  aliases?: Record<string, string>;
+  keyName: string;
+  label: (values: RowValues) => string;
+  check: (values: RowValues) => CheckedRow;
+}
+
+const issueMessages = (error: z.ZodError) => error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+
+// Spreadsheets drop the leading zero of codes like 07, and people write state names.
+const stateCode = (state: string | undefined) => {
+  if (!state) return state;
+  const code = /^\d$/.test(state) ? `0${state}` : state;
+  return INDIAN_STATES.find(s => s.code === code || s.name.toLowerCase() === state.toLowerCase())?.code ?? null;
+};
+
+const IMPORTERS: Record<ImportKind, Importer> = {
+  customers: {
+    columns: ['name', 'phone', 'email', 'address', 'state', 'gstin'],
+    required: ['name', 'phone'],
+    keyName: 'phone number',
+    label: values => [values.name, values.phone].filter(Boolean).join(', '),
+    check: (values) => {
+      const state = stateCode(values.state);
+      const stateErrors = state === null ? [`state: Unknown state "${values.state}"`] : [];
+      const result = customerInputSchema.superRefine(checkGstinState).safeParse({ ...values, state: state ?? undefined });
+      if (!result.success) return { errors: [...stateErrors, ...issueMessages(result.error)] };
+      if (stateErrors.length) return { errors: stateErrors };
+      const fields = toCustomerFields(result.data);
+      return {
+        key: normalizePhone(fields.phone) || fields.phone,
+        existing: findCustomerByPhone(fields.phone)?.name ?? null,
+        save: actor => createCustomer(fields, actor),
+      };
+    },
+  },
+  products: {
+    columns: ['name', 'description', 'sku', 'hsnCode', 'unit', 'price', 'tax', 'lowStockLevel', 'openingStock'],
+    required: ['name', 'price', 'tax'],
+    aliases: { stock: 'openingStock' }, // as exported
+    keyName: 'SKU',
+    label: values => [values.name, values.sku].filter(Boolean).join(', '),
+    check: (values) => {
+      const result = newProductInputSchema.safeParse(values);
+      if (!result.success) return { errors: issueMessages(result.error) };
+      const fields = toProductFields(result.data);
+      return {
+        key: fields.sku,
+        existing: fields.sku ? findProductBySku(fields.sku)?.name ?? null : null,
+        save: actor => createProduct(fields, result.data.openingStock, actor),
+      };
+    },
+  },
+};
+
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const checkImport = (kind: ImportKind, text: string) => {
+  const importer = IMPORTERS[kind];
+  let records: string[][];
+  try {
+    records = parseCsv(text).filter(record => record.some(field => field.trim() !== ''));
+  } catch (error) {
+    if (error instanceof CsvError) throw new ImportError(error.message);
+    throw error;
+  }
+  const [headers, ...dataRows] = records;
+  if (!headers) throw new ImportError('The file is empty.');
+  if (dataRows.length > MAX_IMPORT_ROWS) throw new ImportError(`A file can have at most ${MAX_IMPORT_ROWS} rows; split it into smaller files.`);
+
+  const byKey = new Map(importer.columns.map(column => [headerKey(column), column]));
+  for (const [alias, column] of Object.entries(importer.aliases ?? {})) byKey.set(headerKey(alias), column);
+  const fields = headers.map(header => byKey.get(headerKey(header)) ?? null);
+  const missing = importer.required.filter(column => !fields.includes(column));
+  if (missing.length) throw new ImportError(`The header row has no ${missing.join(', ')} column. The first row must name the columns.`);
+
+  const seen = new Map<string, number>();
+  const saves: ((actor: Actor) => void)[] = [];
+  const rows = dataRows.map((record, index): ImportRow => {
+    const row = index + 2;
+    // Blank cells are left out, so optional fields take their defaults.
+    const values: RowValues = {};
+    fields.forEach((field, i) => { if (field && !values[field] && record[i]?.trim()) values[field] = csvText(record[i].trim()); });
+    const label = importer.label(values);
+
+    const blank = importer.required.filter(column => !values[column]);
+    if (blank.length) return { row, label, status: 'invalid', messages: blank.map(column => `${column}: Required`) };
+    const checked = importer.check(values);
+    if ('errors' in checked) return { row, label, status: 'invalid', messages: checked.errors };
+    if (checked.key) {
+      const firstRow = seen.get(checked.key);
+      if (firstRow) return { row, label, status: 'invalid', messages: [`Same ${importer.keyName} as row ${firstRow}.`] };
+      seen.set(checked.key, row);
+    }
+    if (checked.existing) return { row, label, status: 'duplicate', messages: [`${checked.existing} already has this ${importer.keyName}.`] };
+    saves.push(checked.save);
+    return { row, label, status: 'new', messages: [] };
+  });
+
+  const counts = { new: 0, duplicate: 0, invalid: 0 };
+  for (const { status } of rows) counts[status]++;
+  const preview: ImportPreview = {
+    kind,
+    columns: fields.filter((field): field is string => !!field),
+    ignoredColumns: headers.filter((_, i) => !fields[i]),
+    rows,
+    counts,
+  };
+  return { preview, saves };
+};
+
+// Checks a file without changing anything.
+export const previewImport = (kind: ImportKind, text: string) => checkImport(kind, text).preview;
+
+// Adds every new row, or nothing if any row is invalid. The file is checked again, as records may have been added
+// since it was previewed.
+export const importCsv = (kind: ImportKind, text: string, actor: Actor) => db.transaction(() => {
+  const { preview, saves } = checkImport(kind, text);
+  if (preview.counts.invalid) {
+    throw new ImportError(`${preview.counts.invalid} ${preview.counts.invalid === 1 ? 'row has' : 'rows have'} errors, so nothing was imported.`);
+  }
+  for (const save of saves) save(actor);
+  return preview;
+})();
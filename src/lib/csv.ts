@@ -0,0 +1,58 @@
+// Comma-separated values as spreadsheets read and write them (RFC 4180): fields may be quoted, quoted fields
+// may contain commas, line breaks and doubled quotes, and lines end in CRLF or LF.
+
+export class CsvError extends Error {}
+
+// Rows of fields. A byte-order mark and a final line break are ignored; blank lines come back as [''].
+export const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (text[i + 1] === '"') { field += '"'; i++; }
+      else quoted = false;
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new CsvError(`Line ${rows.length + 1} has a quote that is never closed.`);
+  if (field !== '' || row.length) rows.push([...row, field]);
+  return rows;
+};
+
+// A spreadsheet would run text starting with one of these as a formula ("CSV injection"), so exported text that does
+// is written with a leading apostrophe, which spreadsheets show as text. Numbers, such as -12.50, are written as they are.
+const FORMULA_START = /^[=+\-@\t\r]/;
+const NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+const isFormula = (text: string) => FORMULA_START.test(text) && !NUMBER.test(text);
+
+// The value of a cell written by toCsv, without the apostrophe that kept it from being read as a formula.
+export const csvText = (field: string) => field.startsWith("'") && isFormula(field.slice(1)) ? field.slice(1) : field;
+
+const csvField = (value: string | number | null | undefined) => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = isFormula(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// A header line and one line per record, with CRLF line endings.
+export const toCsv = <T>(columns: { header: string; value: (record: T) => string | number | null | undefined }[], records: T[]) =>
+  [columns.map(column => csvField(column.header)), ...records.map(record => columns.map(column => csvField(column.value(record))))]
+    .map(fields => fields.join(','))
+    .join('\r\n') + '\r\n';
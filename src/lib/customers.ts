@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { recordAudit } from '~/lib/audit';
+import type { Actor } from '~/lib/audit';
+import db, { escapeLike } from '~/lib/db';
+import { GSTIN_PATTERN } from '~/lib/gst';
+import { normalizePhone } from '~/lib/phone';
+import type { Customer } from '~/lib/types';
+
+export type CustomerFields = Omit<Customer, 'id' | 'archivedAt'>;
+
+// What the add and edit customer forms post.
+export const customerInputSchema = z.object({
+  name: z.string().min(1), phone: z.string().min(1), email: z.string().email().optional().or(z.literal('')), address: z.string().optional(),
+  state: z.string().optional(),
+  gstin: z.string().trim().toUpperCase().regex(GSTIN_PATTERN, 'Invalid GSTIN').optional().or(z.literal('')),
+});
+
+export type CustomerInput = z.infer<typeof customerInputSchema>;
+
+// A GSTIN starts with the code of the state it was registered in.
+export const checkGstinState = (data: CustomerInput, ctx: z.RefinementCtx) => {
+  if (data.gstin && data.state && !data.gstin.startsWith(data.state)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'GSTIN does not belong to the selected state', path: ['gstin'] });
+  }
+};
+
+export const toCustomerFields = (data: CustomerInput): CustomerFields => ({
+  name: data.name, phone: data.phone, email: data.email || null, address: data.address || null, state: data.state || null, gstin: data.gstin || null,
+});
+
+// Archived customers are included; selection lists filter them out.
+export const listCustomers = () => db.prepare('SELECT * FROM customers ORDER BY name').all() as Customer[];
+
+export const findCustomer = (id: number) => db.prepare('SELECT * FROM customers WHERE id = ?').get(id) as Customer | undefined;
+
+// Phone numbers are unique among all customers, archived ones included. The same number written another way
+// ("+91 98765 43210" for "098765 43210") belongs to the same customer.
+export const findCustomerByPhone = (phone: string, exceptId?: number) => db.prepare(`
+  SELECT * FROM customers WHERE (phone = @phone OR (@digits != '' AND phoneDigits = @digits)) AND id != @exceptId
+`).get({ phone, digits: normalizePhone(phone), exceptId: exceptId ?? 0 }) as Customer | undefined;
+
+// Field errors for a customer that can't be saved as entered.
+export const customerFieldErrors = (fields: CustomerFields, exceptId?: number) => {
+  const errors: Record<string, string> = {};
+  const samePhone = findCustomerByPhone(fields.phone, exceptId);
+  if (samePhone) errors.phone = `${samePhone.name} already has this phone number.`;
+  return errors;
+};
+
+export const CUSTOMER_SEARCH_LIMIT = 10;
+
+// Customers matching a search term, best match first: the exact phone number, then phone, name and email
+// prefixes, then any word of the name, then anywhere in the name, email or phone. Archived customers are left
+// out, as they can't be billed. Phone digits are only compared when the term has at least three of them.
+export const searchCustomers = (term: string, limit = CUSTOMER_SEARCH_LIMIT) => {
+  const text = escapeLike(term.trim());
+  if (!text) return [];
+  const digits = /^[\d\s+()-]+$/.test(term) && normalizePhone(term).length >= 3 ? normalizePhone(term) : '';
+  return db.prepare(`
+    SELECT * FROM customers
+    WHERE archivedAt IS NULL AND (
+      name LIKE '%' || @text || '%' ESCAPE '\\' OR email LIKE '%' || @text || '%' ESCAPE '\\'
+      OR (@digits != '' AND phoneDigits LIKE '%' || @digits || '%'))
+    ORDER BY CASE
+      WHEN @digits != '' AND phoneDigits = @digits THEN 0
+      WHEN @digits != '' AND phoneDigits LIKE @digits || '%' THEN 1
+      WHEN name LIKE @text || '%' ESCAPE '\\' THEN 2
+      WHEN email LIKE @text || '%' ESCAPE '\\' THEN 3
+      WHEN name LIKE '% ' || @text || '%' ESCAPE '\\' THEN 4
+      ELSE 5 END, name COLLATE NOCASE
+    LIMIT @limit
+  `).all({ text, digits, limit }) as Customer[];
+};
+
+export const createCustomer = (fields: CustomerFields, actor: Actor) => db.transaction(() => {
+  const result = db.prepare('INSERT INTO customers (name, phone, phoneDigits, email, address, state, gstin) VALUES (?, ?, ?, ?, ?, ?, ?)')
+    .run(fields.name, fields.phone, normalizePhone(fields.phone), fields.email || null, fields.address || null, fields.state || null, fields.gstin || null);
+  const id = Number(result.lastInsertRowid);
+  recordAudit(actor, { entity: 'customer', entityId: id, action: 'create', after: findCustomer(id) });
+  return id;
+})();
+
+// Returns false when there is no such customer.
+export const updateCustomer = (id: number, fields: CustomerFields, actor: Actor) => db.transaction(() => {
+  const before = findCustomer(id);
+  if (!before) return false;
+  db.prepare(`
+    UPDATE customers SET name = ?, phone = ?, phoneDigits = ?, email = ?, address = ?, state = ?, gstin = ? WHERE id = ?
+  `).run(fields.name, fields.phone, normalizePhone(fields.phone), fields.email || null, fields.address || null, fields.state || null, fields.gstin || null, id);
+  recordAudit(actor, { entity: 'customer', entityId: id, action: 'update', before, after: findCustomer(id) });
+  return true;
+})();
+
+// Documents that keep a reference to the customer.
+const CUSTOMER_DOCUMENT_TABLES = ['invoices', 'quotations', 'recurring_invoices'];
+
+// A customer who has been invoiced, quoted or given a recurring invoice is archived rather than deleted, so their
+// documents stay intact.
+export const removeCustomer = (id: number, actor: Actor) => db.transaction(() => {
+  const before = findCustomer(id);
+  if (!before) return null;
+  const used = CUSTOMER_DOCUMENT_TABLES.some(table => db.prepare(`SELECT 1 FROM ${table} WHERE customerId = ? LIMIT 1`).get(id));
+  if (!used) {
+    db.prepare('DELETE FROM customers WHERE id = ?').run(id);
+    recordAudit(actor, { entity: 'customer', entityId: id, action: 'delete', before });
+    return 'deleted' as const;
+  }
+  db.prepare('UPDATE customers SET archivedAt = ? WHERE id = ?').run(new Date().toISOString(), id);
+  recordAudit(actor, { entity: 'customer', entityId: id, action: 'archive', before, after: findCustomer(id) });
+  return 'archived' as const;
+})();
+
+export const restoreCustomer = (id: number, actor: Actor) => db.transaction(() => {
+  const before = findCustomer(id);
+  if (!before) return false;
+  db.prepare('UPDATE customers SET archivedAt = NULL WHERE id = ?').run(id);
+  recordAudit(actor, { entity: 'customer', entityId: id, action: 'restore', before, after: findCustomer(id) });
+  return true;
+})();
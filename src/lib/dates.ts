@@ -0,0 +1,23 @@
+// Calendar dates are passed around as YYYY-MM-DD strings, the way date inputs post them. They are read in UTC,
+// like the timestamps stored with records, so they never shift with the server's time zone.
+
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseDate = (date: string) => date.split('-').map(Number) as [number, number, number];
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+// Today as YYYY-MM-DD.
+export const currentDate = () => toDateString(new Date());
+
+export const addDays = (date: string, days: number) => {
+  const [year, month, day] = parseDate(date);
+  return toDateString(new Date(Date.UTC(year, month - 1, day + days)));
+};
+
+// The same day `months` later, or the last day of that month if it is shorter (31 Jan + 1 month is 28 or 29 Feb).
+export const addMonths = (date: string, months: number) => {
+  const [year, month, day] = parseDate(date);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return toDateString(new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))));
+};
@@ -1,52 +1,18 @@
-import Database from 'better-sqlite3';
-
-const db = new Database('invoicing.db');
-
-const initDb = () => {
-  // Use PRAGMA for foreign key support in SQLite
-  db.exec('PRAGMA foreign_keys = ON;');
-
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS customers (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      phone TEXT NOT NULL UNIQUE,
-      email TEXT,
-      address TEXT
-    );
-
-    CREATE TABLE IF NOT EXISTS products (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      description TEXT,
-      price REAL NOT NULL,
-      tax REAL NOT NULL
-    );
-
-    -- NEW: Table to store the main invoice record
-    CREATE TABLE IF NOT EXISTS invoices (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      customerId INTEGER NOT NULL,
-      createdAt TEXT NOT NULL,
-      totalAmount REAL NOT NULL,
-      FOREIGN KEY (customerId) REFERENCES customers (id)
-    );
-
-    -- NEW: Table to store the individual items of each invoice
-    CREATE TABLE IF NOT EXISTS invoice_items (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      invoiceId INTEGER NOT NULL,
-      productId INTEGER NOT NULL,
-      quantity INTEGER NOT NULL,
-      priceAtSale REAL NOT NULL, -- Store price at time of sale
-      taxAtSale REAL NOT NULL,   -- Store tax at time of sale
-      FOREIGN KEY (invoiceId) REFERENCES invoices (id),
-      FOREIGN KEY (productId) REFERENCES products (id)
-    );
-  `);
-  console.log('Database with Invoices support initialized successfully.');
-};
-
-initDb();
-
-export default db;
\ No newline at end of file
+import Database from 'better-sqlite3';
+import { migrate } from './migrate';
+
+const db = new Database('invoicing.db');
+
+// Use PRAGMA for foreign key support in SQLite
+db.exec('PRAGMA foreign_keys = ON;');
+
+// Bring the schema up to date before anything queries it. See lib/migrations.
+migrate(db);
+
+// A write refused because another row still refers to the one being changed or deleted.
+export const isForeignKeyError = (error: unknown) => error instanceof Database.SqliteError && error.code === 'SQLITE_CONSTRAINT_FOREIGNKEY';
+
+// A search term for `LIKE ... ESCAPE '\\'`, with its own % and _ matched literally.
+export const escapeLike = (term: string) => term.replace(/[\\%_]/g, match => `\\${match}`);
+
+export default db;
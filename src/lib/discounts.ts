@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { computeLine, percentOf, sumLines } from '~/lib/money';
+import type { LineAmounts, Paise } from '~/lib/money';
+
+// Discounts reduce the taxable value, so GST is charged on the discounted price.
+// A line can have its own discount, and the invoice can have one on top of that. The invoice discount is
+// shared out over the lines in proportion to their value after line discounts, so every line (and every GST
+// rate) carries its part of it and the tax on each line stays correct.
+
+// `value` is a percentage, or an amount in paise for `amount` discounts.
+export interface Discount { type: 'percent' | 'amount'; value: number; }
+
+export const discountSchema = z.object({
+  type: z.enum(['percent', 'amount']),
+  value: z.coerce.number({ invalid_type_error: 'Discount must be a number' }).min(0, 'Discount cannot be negative'),
+})
+  .refine(discount => discount.type !== 'amount' || Number.isInteger(discount.value), 'Discount amount must be a whole number of paise')
+  .refine(discount => discount.type !== 'percent' || discount.value <= 100, 'Discount must be at most 100%');
+
+// The discount as it was entered, from a saved line or invoice.
+export const storedDiscount = (percent: number | null, amount: Paise): Discount | null =>
+  percent !== null ? { type: 'percent', value: percent } : amount > 0 ? { type: 'amount', value: amount } : null;
+
+export const discountAmount = (amount: Paise, discount: Discount | null | undefined): Paise =>
+  !discount ? 0 : discount.type === 'percent' ? percentOf(amount, discount.value) : discount.value;
+
+// Splits an amount over the weights in proportion, handing the rounding remainder out largest-fraction first,
+// so the parts always add up to the amount exactly.
+export const apportion = (amount: Paise, weights: Paise[]): Paise[] => {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0) return weights.map(() => 0);
+  const exact = weights.map(weight => amount * weight / total);
+  const parts = exact.map(Math.floor);
+  let remainder = amount - parts.reduce((sum, part) => sum + part, 0);
+  const byFraction = exact.map((value, index) => ({ index, fraction: value - Math.floor(value) })).sort((a, b) => b.fraction - a.fraction);
+  for (const { index } of byFraction) {
+    if (remainder <= 0) break;
+    parts[index]++;
+    remainder--;
+  }
+  return parts;
+};
+
+export interface PricedLineInput { price: Paise; quantity: number; tax: number; discount?: Discount | null; }
+// `discountAmount` is the line's own discount, `invoiceDiscountAmount` its share of the invoice discount.
+export interface PricedLine extends LineAmounts { grossAmount: Paise; discountAmount: Paise; invoiceDiscountAmount: Paise; }
+export interface PricedInvoice { lines: PricedLine[]; totals: LineAmounts; grossAmount: Paise; lineDiscountAmount: Paise; invoiceDiscountAmount: Paise; }
+
+// Prices a whole invoice. Used for the preview while an invoice is being put together and again on the server
+// when it is saved, so both always agree. Discounts larger than what they apply to are capped here; the server
+// rejects them before saving (see `discountErrors`).
+export const priceInvoice = (items: PricedLineInput[], invoiceDiscount: Discount | null | undefined, interState: boolean): PricedInvoice => {
+  const gross = items.map(item => item.price * item.quantity);
+  const lineDiscounts = items.map((item, index) => Math.min(discountAmount(gross[index], item.discount), gross[index]));
+  const afterLineDiscounts = gross.map((amount, index) => amount - lineDiscounts[index]);
+  const subtotal = afterLineDiscounts.reduce((sum, amount) => sum + amount, 0);
+  const invoiceDiscountAmount = Math.min(discountAmount(subtotal, invoiceDiscount), subtotal);
+  const shares = apportion(invoiceDiscountAmount, afterLineDiscounts);
+
+  const lines = items.map((item, index) => ({
+    grossAmount: gross[index],
+    discountAmount: lineDiscounts[index],
+    invoiceDiscountAmount: shares[index],
+    ...computeLine(item.price, item.quantity, item.tax, interState, lineDiscounts[index] + shares[index]),
+  }));
+  return {
+    lines,
+    totals: sumLines(lines),
+    grossAmount: gross.reduce((sum, amount) => sum + amount, 0),
+    lineDiscountAmount: lineDiscounts.reduce((sum, amount) => sum + amount, 0),
+    invoiceDiscountAmount,
+  };
+};
+
+// Field errors for discounts larger than the amount they apply to, keyed like the invoice form's errors.
+export const discountErrors = (items: PricedLineInput[], invoiceDiscount: Discount | null | undefined) => {
+  const errors: Record<string, string> = {};
+  let subtotal = 0;
+  items.forEach((item, index) => {
+    const gross = item.price * item.quantity;
+    const discount = discountAmount(gross, item.discount);
+    if (discount > gross) errors[`items.${index}`] = 'The discount is more than the line amount.';
+    subtotal += gross - Math.min(discount, gross);
+  });
+  if (discountAmount(subtotal, invoiceDiscount) > subtotal) errors.discount = 'The invoice discount is more than the invoice amount.';
+  return errors;
+};
@@ -0,0 +1,60 @@
+// GST helpers shared by the server actions and the invoice screens.
+// Intra-state supplies are taxed as CGST + SGST (half the rate each), inter-state supplies as IGST;
+// the amounts themselves are computed in lib/money.ts.
+
+export interface IndianState { code: string; name: string; }
+
+// State codes as used in the first two digits of a GSTIN.
+export const INDIAN_STATES: IndianState[] = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+  { code: '97', name: 'Other Territory' },
+];
+
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const stateName = (code: string | null | undefined) =>
+  INDIAN_STATES.find(s => s.code === code)?.name ?? code ?? 'N/A';
+
+// Tax components in paise; see lib/money.ts for how they are rounded.
+export interface GstAmounts { cgstAmount: number; sgstAmount: number; igstAmount: number; }
+
+// The customer's state decides the place of supply; fall back to the GSTIN prefix, then to a local sale.
+export const placeOfSupplyFor = (customer: { state: string | null; gstin: string | null } | null, sellerState: string) =>
+  customer?.state || customer?.gstin?.slice(0, 2) || sellerState;
+
+export const isInterState = (sellerState: string, placeOfSupply: string) => sellerState !== placeOfSupply;
@@ -0,0 +1,141 @@
+import type { BusinessProfile } from '~/lib/business';
+import { toCsv } from '~/lib/csv';
+import db from '~/lib/db';
+import { stateName } from '~/lib/gst';
+import { formatAmount, toPaise, toRupees } from '~/lib/money';
+import type { Paise } from '~/lib/money';
+import { LINE_TAXABLE, SALES_IN_PERIOD } from '~/lib/reports';
+
+// The outward supplies of a period laid out like the B2B, B2CL and B2C (small) tables of GSTR-1, for the
+// accountant to file. The CSV files have the columns of the GST offline tool's sheets; the JSON has the same
+// rows with the tax amounts as well. Amounts are in rupees.
+// - B2B: invoices to customers with a GSTIN, one row per invoice and tax rate
+// - B2CL: inter-state invoices to customers without a GSTIN worth more than B2CL_LIMIT, one row per invoice and rate
+// - B2CS: every other invoice to customers without a GSTIN, added up by place of supply and rate
+// Nil-rated lines are left out; they are filed in another table. A customer's GSTIN is read as it is now.
+
+export const GSTR1_SECTIONS = ['b2b', 'b2cl', 'b2cs'] as const;
+
+export type Gstr1Section = typeof GSTR1_SECTIONS[number];
+
+// ₹1 lakh since August 2024.
+export const B2CL_LIMIT = toPaise(100000);
+
+interface Gstr1Amounts { rate: number; taxableAmount: Paise; igstAmount: Paise; cgstAmount: Paise; sgstAmount: Paise; }
+
+interface Gstr1Invoice extends Gstr1Amounts { invoiceNumber: string; invoiceDate: string; invoiceValue: Paise; placeOfSupply: string; }
+
+export interface B2bRow extends Gstr1Invoice { gstin: string; receiverName: string; }
+
+export type B2clRow = Gstr1Invoice;
+
+export interface B2csRow extends Gstr1Amounts { placeOfSupply: string; }
+
+export interface Gstr1Report { gstin: string; from: string; to: string; b2b: B2bRow[]; b2cl: B2clRow[]; b2cs: B2csRow[]; }
+
+const RATE_SUMS = `
+  ii.taxAtSale as rate, SUM(${LINE_TAXABLE}) as taxableAmount, SUM(ii.igstAmount) as igstAmount, SUM(ii.cgstAmount) as cgstAmount,
+  SUM(ii.sgstAmount) as sgstAmount
+`;
+
+const INVOICE_COLUMNS = `
+  i.invoiceNumber, date(i.issuedAt) as invoiceDate, i.totalAmount as invoiceValue, COALESCE(i.placeOfSupply, @sellerState) as placeOfSupply
+`;
+
+const FROM_SALES = `
+  FROM invoice_items ii JOIN invoices i ON ii.invoiceId = i.id JOIN customers c ON i.customerId = c.id
+  WHERE ${SALES_IN_PERIOD} AND ii.taxAtSale > 0
+`;
+
+const IS_B2CL = `(c.gstin IS NULL AND COALESCE(i.placeOfSupply, @sellerState) != @sellerState AND i.totalAmount > @b2clLimit)`;
+
+export const gstr1Report = (range: { from: string; to: string }, business: BusinessProfile): Gstr1Report => {
+  const params = { ...range, sellerState: business.stateCode, b2clLimit: B2CL_LIMIT };
+  return {
+    gstin: business.gstin,
+    ...range,
+    b2b: db.prepare(`
+      SELECT c.gstin, c.name as receiverName, ${INVOICE_COLUMNS}, ${RATE_SUMS}
+      ${FROM_SALES} AND c.gstin IS NOT NULL
+      GROUP BY i.id, ii.taxAtSale
+      ORDER BY i.issuedAt, i.id, rate
+    `).all(params) as B2bRow[],
+    b2cl: db.prepare(`
+      SELECT ${INVOICE_COLUMNS}, ${RATE_SUMS}
+      ${FROM_SALES} AND ${IS_B2CL}
+      GROUP BY i.id, ii.taxAtSale
+      ORDER BY i.issuedAt, i.id, rate
+    `).all(params) as B2clRow[],
+    b2cs: db.prepare(`
+      SELECT COALESCE(i.placeOfSupply, @sellerState) as placeOfSupply, ${RATE_SUMS}
+      ${FROM_SALES} AND c.gstin IS NULL AND NOT ${IS_B2CL}
+      GROUP BY COALESCE(i.placeOfSupply, @sellerState), ii.taxAtSale
+      ORDER BY placeOfSupply, rate
+    `).all(params) as B2csRow[],
+  };
+};
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// As the offline tool writes them: 05-Jan-2027 and 29-Karnataka.
+const gstDate = (date: string) => `${date.slice(8, 10)}-${MONTH_NAMES[Number(date.slice(5, 7)) - 1]}-${date.slice(0, 4)}`;
+const supplyPlace = (code: string) => `${code}-${stateName(code)}`;
+
+const amountsInRupees = (row: Gstr1Amounts) => ({
+  taxableAmount: toRupees(row.taxableAmount), igstAmount: toRupees(row.igstAmount), cgstAmount: toRupees(row.cgstAmount), sgstAmount: toRupees(row.sgstAmount),
+});
+
+export const gstr1Json = (report: Gstr1Report) => ({
+  gstin: report.gstin,
+  from: report.from,
+  to: report.to,
+  b2b: report.b2b.map(row => ({ ...row, invoiceValue: toRupees(row.invoiceValue), ...amountsInRupees(row) })),
+  b2cl: report.b2cl.map(row => ({ ...row, invoiceValue: toRupees(row.invoiceValue), ...amountsInRupees(row) })),
+  b2cs: report.b2cs.map(row => ({ type: 'OE', ...row, ...amountsInRupees(row) })),
+});
+
+export const gstr1Csv = (section: Gstr1Section, report: Gstr1Report) => {
+  switch (section) {
+    case 'b2b':
+      return toCsv<B2bRow>([
+        { header: 'GSTIN/UIN of Recipient', value: row => row.gstin },
+        { header: 'Receiver Name', value: row => row.receiverName },
+        { header: 'Invoice Number', value: row => row.invoiceNumber },
+        { header: 'Invoice date', value: row => gstDate(row.invoiceDate) },
+        { header: 'Invoice Value', value: row => formatAmount(row.invoiceValue) },
+        { header: 'Place Of Supply', value: row => supplyPlace(row.placeOfSupply) },
+        { header: 'Reverse Charge', value: () => 'N' },
+        { header: 'Applicable % of Tax Rate', value: () => '' },
+        { header: 'Invoice Type', value: () => 'Regular B2B' },
+        { header: 'E-Commerce GSTIN', value: () => '' },
+        { header: 'Rate', value: row => row.rate },
+        { header: 'Taxable Value', value: row => formatAmount(row.taxableAmount) },
+        { header: 'Cess Amount', value: () => '' },
+      ], report.b2b);
+    case 'b2cl':
+      return toCsv<B2clRow>([
+        { header: 'Invoice Number', value: row => row.invoiceNumber },
+        { header: 'Invoice date', value: row => gstDate(row.invoiceDate) },
+        { header: 'Invoice Value', value: row => formatAmount(row.invoiceValue) },
+        { header: 'Place Of Supply', value: row => supplyPlace(row.placeOfSupply) },
+        { header: 'Applicable % of Tax Rate', value: () => '' },
+        { header: 'Rate', value: row => row.rate },
+        { header: 'Taxable Value', value: row => formatAmount(row.taxableAmount) },
+        { header: 'Cess Amount', value: () => '' },
+        { header: 'E-Commerce GSTIN', value: () => '' },
+      ], report.b2cl);
+    case 'b2cs':
+      return toCsv<B2csRow>([
+        { header: 'Type', value: () => 'OE' },
+        { header: 'Place Of Supply', value: row => supplyPlace(row.placeOfSupply) },
+        { header: 'Applicable % of Tax Rate', value: () => '' },
+        { header: 'Rate', value: row => row.rate },
+        { header: 'Taxable Value', value: row => formatAmount(row.taxableAmount) },
+        { header: 'Cess Amount', value: () => '' },
+        { header: 'E-Commerce GSTIN', value: () => '' },
+      ], report.b2cs);
+  }
+};
+
+export const gstr1FileName = (file: Gstr1Section | 'json', { from, to }: { from: string; to: string }) =>
+  file === 'json' ? `gstr1_${from}_${to}.json` : `gstr1_${file}_${from}_${to}.csv`;
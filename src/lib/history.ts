@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import db, { escapeLike } from '~/lib/db';
+import { outstandingAmount } from '~/lib/invoice-status';
+import { toPaise } from '~/lib/money';
+import type { Paise } from '~/lib/money';
+import { normalizePhone } from '~/lib/phone';
+import type { InvoiceStatus } from '~/lib/types';
+
+// Invoice history: invoices and credit notes in one searchable, sortable, paginated list.
+// Only summary columns are read here; line items are loaded when a single document is opened.
+
+export const HISTORY_PAGE_SIZE = 20;
+
+const HISTORY_SORTS = {
+  date: 'date',
+  number: 'number',
+  customer: 'customerName COLLATE NOCASE',
+  total: 'totalAmount',
+};
+
+export type HistorySort = keyof typeof HISTORY_SORTS;
+
+const optionalDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().catch(undefined);
+const optionalAmount = z.coerce.number().min(0).optional().catch(undefined);
+
+// The list is driven by URL query params. Anything malformed is ignored rather than rejected,
+// so a hand-edited URL still shows a list.
+export const historyQuerySchema = z.object({
+  q: z.string().trim().optional().catch(undefined),
+  kind: z.enum(['invoice', 'credit_note']).optional().catch(undefined),
+  status: z.enum(['draft', 'issued', 'partially_paid', 'paid', 'cancelled', 'credit_note']).optional().catch(undefined),
+  from: optionalDate,
+  to: optionalDate,
+  min: optionalAmount, // rupees
+  max: optionalAmount,
+  sort: z.enum(['date', 'number', 'customer', 'total']).catch('date'),
+  order: z.enum(['asc', 'desc']).catch('desc'),
+  page: z.coerce.number().int().min(1).catch(1),
+});
+
+export type HistoryQuery = z.infer<typeof historyQuerySchema>;
+
+export const parseHistoryQuery = (params: URLSearchParams) =>
+  historyQuerySchema.parse(Object.fromEntries([...params].filter(([, value]) => value !== '')));
+
+export interface HistoryRow {
+  kind: 'invoice' | 'credit_note';
+  id: number;
+  number: string | null; // null for drafts
+  customerName: string;
+  customerPhone: string;
+  date: string;
+  status: InvoiceStatus | 'credit_note';
+  totalAmount: Paise;
+  outstanding: Paise;
+}
+
+export interface HistoryPage { rows: HistoryRow[]; total: number; page: number; pageCount: number; }
+
+const DOCUMENTS = `
+  SELECT 'invoice' as kind, i.id, i.invoiceNumber as number, c.name as customerName, c.phone as customerPhone, c.phoneDigits as customerPhoneDigits,
+         COALESCE(i.issuedAt, i.createdAt) as date, i.status, i.totalAmount,
+         (SELECT COALESCE(SUM(amount), 0) FROM payments WHERE invoiceId = i.id) as amountPaid,
+         (SELECT COALESCE(SUM(totalAmount), 0) FROM credit_notes WHERE invoiceId = i.id) as amountCredited
+  FROM invoices i JOIN customers c ON i.customerId = c.id
+  UNION ALL
+  SELECT 'credit_note', cn.id, cn.creditNoteNumber, c.name, c.phone, c.phoneDigits, cn.createdAt, 'credit_note', cn.totalAmount, 0, 0
+  FROM credit_notes cn JOIN invoices i ON cn.invoiceId = i.id JOIN customers c ON i.customerId = c.id
+`;
+
+export const searchHistory = (query: HistoryQuery): HistoryPage => {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (query.q) {
+    // Phone numbers are matched on their digits, however they were typed, as in the customer search.
+    const text = `%${escapeLike(query.q)}%`;
+    const digits = /^[\d\s+()-]+$/.test(query.q) && normalizePhone(query.q).length >= 3 ? normalizePhone(query.q) : '';
+    conditions.push(`(number LIKE ? ESCAPE '\\' OR customerName LIKE ? ESCAPE '\\' OR (? != '' AND customerPhoneDigits LIKE '%' || ? || '%'))`);
+    params.push(text, text, digits, digits);
+  }
+  if (query.kind) { conditions.push('kind = ?'); params.push(query.kind); }
+  if (query.status) { conditions.push('status = ?'); params.push(query.status); }
+  if (query.from) { conditions.push('date(date) >= ?'); params.push(query.from); }
+  if (query.to) { conditions.push('date(date) <= ?'); params.push(query.to); }
+  if (query.min !== undefined) { conditions.push('totalAmount >= ?'); params.push(toPaise(query.min)); }
+  if (query.max !== undefined) { conditions.push('totalAmount <= ?'); params.push(toPaise(query.max)); }
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const { total } = db.prepare(`SELECT COUNT(*) as total FROM (${DOCUMENTS}) ${where}`).get(...params) as { total: number };
+  const pageCount = Math.max(Math.ceil(total / HISTORY_PAGE_SIZE), 1);
+  const page = Math.min(query.page, pageCount);
+
+  const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+  const rows = db.prepare(`
+    SELECT * FROM (${DOCUMENTS}) ${where}
+    ORDER BY ${HISTORY_SORTS[query.sort]} ${direction}, date ${direction}, id ${direction}
+    LIMIT ? OFFSET ?
+  `).all(...params, HISTORY_PAGE_SIZE, (page - 1) * HISTORY_PAGE_SIZE) as (Omit<HistoryRow, 'outstanding'> & { customerPhoneDigits: string; amountPaid: Paise; amountCredited: Paise })[];
+
+  return {
+    rows: rows.map(({ amountPaid, amountCredited, customerPhoneDigits: _digits, ...row }) => ({
+      ...row,
+      outstanding: row.status === 'credit_note' ? 0 : outstandingAmount({ status: row.status, totalAmount: row.totalAmount, amountPaid, amountCredited }),
+    })),
+    total,
+    page,
+    pageCount,
+  };
+};
@@ -0,0 +1,100 @@
+import type { Actor } from '~/lib/audit';
+import { paymentDetails } from '~/lib/business';
+import type { BusinessProfile } from '~/lib/business';
+import db from '~/lib/db';
+import { invoicePdfFileName, renderInvoicePdf } from '~/lib/invoice-pdf';
+import { canEmail, invoiceLabel, outstandingAmount } from '~/lib/invoice-status';
+import { InvoiceError, findInvoiceWithCustomer } from '~/lib/invoices';
+import { MailError, createMailTransport } from '~/lib/mail';
+import type { MailConfig } from '~/lib/mail';
+import { formatMoney, savedLine } from '~/lib/money';
+import type { Customer, Invoice, InvoiceEmail } from '~/lib/types';
+
+// Emails an issued invoice to the customer: a short HTML message with the lines and totals, and the tax invoice
+// PDF attached. Every attempt is logged against the invoice, whether the transport took the message or not.
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+export const renderInvoiceEmail = (invoice: Invoice, customer: Customer, business: BusinessProfile) => {
+  const label = invoiceLabel(invoice);
+  const date = (invoice.issuedAt ?? invoice.createdAt).slice(0, 10);
+  const outstanding = outstandingAmount(invoice);
+  const lines = invoice.items.map(item => ({ item, total: savedLine(item.taxableAmount, item).totalAmount }));
+  const seller = [business.name, business.address, business.gstin && `GSTIN: ${business.gstin}`].filter(Boolean);
+  const due = outstanding > 0
+    ? `Amount due: ${formatMoney(outstanding, business)}${invoice.dueDate ? ` by ${invoice.dueDate}` : ''}`
+    : 'This invoice has been paid in full. Thank you.';
+  const payment = outstanding > 0 ? paymentDetails(business) : [];
+
+  const text = [
+    `Dear ${customer.name},`,
+    '',
+    `Please find attached invoice ${label} dated ${date} for ${formatMoney(invoice.totalAmount, business)}.`,
+    '',
+    ...lines.map(({ item, total }) => `${item.name} x ${item.quantity} ${item.unit}: ${formatMoney(total, business)}`),
+    `Total: ${formatMoney(invoice.totalAmount, business)}`,
+    due,
+    ...payment,
+    '',
+    ...seller,
+  ].join('\n');
+
+  const cell = 'padding: 4px 8px; border-bottom: 1px solid #ddd;';
+  const html = `<!DOCTYPE html>
+<html><body style="font-family: Arial, sans-serif; color: #333;">
+<p>Dear ${escapeHtml(customer.name)},</p>
+<p>Please find attached invoice <strong>${escapeHtml(label)}</strong> dated ${date} for <strong>${formatMoney(invoice.totalAmount, business)}</strong>.</p>
+<table style="border-collapse: collapse;">
+<tr><th style="${cell} text-align: left;">Item</th><th style="${cell} text-align: right;">Qty</th><th style="${cell} text-align: right;">Amount</th></tr>
+${lines.map(({ item, total }) => `<tr><td style="${cell}">${escapeHtml(item.name)}</td><td style="${cell} text-align: right;">${item.quantity} ${escapeHtml(item.unit)}</td><td style="${cell} text-align: right;">${formatMoney(total, business)}</td></tr>`).join('\n')}
+<tr><td style="${cell}" colspan="2"><strong>Total</strong></td><td style="${cell} text-align: right;"><strong>${formatMoney(invoice.totalAmount, business)}</strong></td></tr>
+</table>
+<p>${[due, ...payment].map(escapeHtml).join('<br>')}</p>
+<p style="color: #666;">${seller.map(escapeHtml).join('<br>')}</p>
+</body></html>`;
+
+  return { subject: `Invoice ${label} from ${business.name}`, text, html };
+};
+
+export const findInvoiceEmails = (invoiceId: number) => db.prepare(`
+  SELECT e.*, (SELECT name FROM users WHERE id = e.sentBy) as sentByName
+  FROM invoice_emails e
+  WHERE e.invoiceId = ?
+  ORDER BY e.createdAt DESC, e.id DESC
+`).all(invoiceId) as InvoiceEmail[];
+
+// Sends the invoice to `recipient`, or to the customer's email address. Throws InvoiceError for an invoice that
+// can't be sent and MailError when the transport fails; the failure is logged first.
+export const sendInvoiceEmail = async (invoiceId: number, recipient: string | undefined, business: BusinessProfile, config: MailConfig, actor: Actor) => {
+  const found = findInvoiceWithCustomer(invoiceId);
+  if (!found) throw new InvoiceError('Invoice not found.');
+  const { invoice, customer } = found;
+  if (!canEmail(invoice)) {
+    const label = invoiceLabel(invoice);
+    throw new InvoiceError(invoice.status === 'draft' ? `Invoice ${label} is a draft; issue it before sending it.` : `Invoice ${label} has been cancelled and can't be sent.`);
+  }
+  const to = recipient || customer.email;
+  if (!to) throw new InvoiceError(`${customer.name} has no email address. Enter one to send the invoice to.`);
+
+  const email = renderInvoiceEmail(invoice, customer, business);
+  const pdf = await renderInvoicePdf(invoice, customer, business);
+  const log = db.prepare(`
+    INSERT INTO invoice_emails (invoiceId, recipient, subject, transport, status, messageId, error, createdAt, sentBy)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  try {
+    const { messageId } = await createMailTransport(config).send({
+      from: business.name,
+      to,
+      ...email,
+      attachments: [{ filename: invoicePdfFileName(invoice), contentType: 'application/pdf', content: pdf }],
+    });
+    log.run(invoiceId, to, email.subject, config.transport, 'sent', messageId, null, new Date().toISOString(), actor.userId);
+    return { recipient: to, transport: config.transport };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.run(invoiceId, to, email.subject, config.transport, 'failed', null, message, new Date().toISOString(), actor.userId);
+    throw new MailError(`The invoice could not be sent to ${to}: ${message}`);
+  }
+};
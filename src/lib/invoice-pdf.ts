@@ -0,0 +1,232 @@
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import type { PDFFont, PDFPage } from 'pdf-lib';
+import { amountInWords } from '~/lib/amount-in-words';
+import { paymentDetails } from '~/lib/business';
+import type { BusinessProfile } from '~/lib/business';
+import { stateName } from '~/lib/gst';
+import { invoiceLabel } from '~/lib/invoice-status';
+import { formatAmount, savedLine, sumLines } from '~/lib/money';
+import type { Customer, Invoice } from '~/lib/types';
+
+// Renders a saved invoice as an A4 tax invoice. Everything is drawn with the standard PDF fonts,
+// so no font files or external services are needed.
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const GREY = rgb(0.4, 0.4, 0.4);
+
+interface Column { title: string; width: number; align?: 'right'; }
+
+const ITEM_COLUMNS: Column[] = [
+  { title: '#', width: 20 },
+  { title: 'Item', width: 85 },
+  { title: 'HSN/SAC', width: 45 },
+  { title: 'Qty', width: 40, align: 'right' },
+  { title: 'Rate', width: 55, align: 'right' },
+  { title: 'Disc.', width: 40, align: 'right' },
+  { title: 'Taxable', width: 60, align: 'right' },
+  { title: 'GST %', width: 35, align: 'right' },
+  { title: 'CGST', width: 45, align: 'right' },
+  { title: 'SGST', width: 45, align: 'right' },
+  { title: 'IGST', width: 45, align: 'right' },
+];
+
+const RATE_COLUMNS: Column[] = [
+  { title: 'GST Rate', width: 95 },
+  { title: 'Taxable Value', width: 105, align: 'right' },
+  { title: 'CGST', width: 105, align: 'right' },
+  { title: 'SGST', width: 105, align: 'right' },
+  { title: 'IGST', width: 105, align: 'right' },
+];
+
+// The standard fonts only cover WinAnsi, so anything outside Latin-1 (including ₹) is replaced.
+const clean = (text: string) => text.replace(/₹/g, 'Rs.').replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+
+export const invoicePdfFileName = (invoice: Pick<Invoice, 'id' | 'invoiceNumber'>) => `${invoiceLabel(invoice).replace(/[/#\s]+/g, '-')}.pdf`;
+
+export const renderInvoicePdf = async (invoice: Invoice, customer: Customer, business: BusinessProfile) => {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Tax Invoice ${invoiceLabel(invoice)}`);
+  pdf.setAuthor(business.name);
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const fit = (text: string, font: PDFFont, size: number, width: number) => {
+    let value = clean(text);
+    if (font.widthOfTextAtSize(value, size) <= width) return value;
+    while (value.length > 0 && font.widthOfTextAtSize(`${value}...`, size) > width) value = value.slice(0, -1);
+    return `${value}...`;
+  };
+
+  const wrap = (value: string, font: PDFFont, size: number, width: number) => {
+    const lines: string[] = [];
+    for (const word of clean(value).split(/\s+/).filter(Boolean)) {
+      const last = lines[lines.length - 1];
+      if (last !== undefined && font.widthOfTextAtSize(`${last} ${word}`, size) <= width) lines[lines.length - 1] = `${last} ${word}`;
+      else lines.push(word);
+    }
+    return lines;
+  };
+
+  const text = (value: string, x: number, opts: { font?: PDFFont; size?: number; width?: number; align?: 'right'; color?: typeof GREY } = {}) => {
+    const font = opts.font ?? regular;
+    const size = opts.size ?? 9;
+    const fitted = opts.width ? fit(value, font, size, opts.width) : clean(value);
+    const left = opts.align === 'right' && opts.width ? x + opts.width - font.widthOfTextAtSize(fitted, size) : x;
+    page.drawText(fitted, { x: left, y, size, font, color: opts.color });
+  };
+
+  const rule = () => page.drawLine({ start: { x: MARGIN, y: y + 10 }, end: { x: PAGE_WIDTH - MARGIN, y: y + 10 }, thickness: 0.5, color: GREY });
+
+  // Starts a new page when the next block would run into the bottom margin.
+  const ensureSpace = (height: number) => {
+    if (y - height >= MARGIN) return;
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const row = (columns: Column[], values: string[], font: PDFFont = regular) => {
+    ensureSpace(14);
+    let x = MARGIN;
+    columns.forEach((column, i) => {
+      text(values[i], x + 2, { font, width: column.width - 4, align: column.align });
+      x += column.width;
+    });
+    y -= 14;
+  };
+
+  const header = (columns: Column[]) => {
+    ensureSpace(40);
+    row(columns, columns.map(c => c.title), bold);
+    rule();
+  };
+
+  // --- Seller header ---
+  // The logo sits above the name, at most 50pt high and 150pt wide.
+  if (business.logo) {
+    const [, type, data] = business.logo.match(/^data:image\/(png|jpeg);base64,(.*)$/)!;
+    const image = type === 'png' ? await pdf.embedPng(data) : await pdf.embedJpg(data);
+    const { width, height } = image.scaleToFit(150, 50);
+    y -= height - 12;
+    page.drawImage(image, { x: MARGIN, y, width, height });
+    y -= 20;
+  }
+  text(business.name, MARGIN, { font: bold, size: 16 });
+  // Drafts and cancelled invoices must never pass for a valid tax invoice.
+  const title = invoice.status === 'draft' ? 'DRAFT - NOT A TAX INVOICE' : invoice.status === 'cancelled' ? 'CANCELLED INVOICE' : 'TAX INVOICE';
+  text(title, PAGE_WIDTH - MARGIN - 250, { font: bold, size: 14, width: 250, align: 'right' });
+  y -= 18;
+  for (const line of wrap(business.address, regular, 9, 300).slice(0, 3)) {
+    text(line, MARGIN, { width: 300 });
+    y -= 12;
+  }
+  if (business.gstin) { text(`GSTIN: ${business.gstin}`, MARGIN); y -= 12; }
+  text(`State: ${stateName(business.stateCode)} (${business.stateCode})`, MARGIN);
+  y -= 12;
+
+  let metaY = PAGE_HEIGHT - MARGIN - 18;
+  for (const [label, value] of [
+    ['Invoice No', invoiceLabel(invoice)],
+    ['Date', new Date(invoice.issuedAt ?? invoice.createdAt).toLocaleDateString(business.locale)],
+    ...(invoice.dueDate ? [['Due Date', new Date(invoice.dueDate).toLocaleDateString(business.locale, { timeZone: 'UTC' })]] : []),
+    ['Place of Supply', `${stateName(invoice.placeOfSupply)} (${invoice.placeOfSupply ?? '-'})`],
+  ]) {
+    page.drawText(clean(`${label}: ${value}`), { x: PAGE_WIDTH - MARGIN - 200, y: metaY, size: 9, font: regular });
+    metaY -= 12;
+  }
+  y = Math.min(y, metaY) - 8;
+  rule();
+  y -= 6;
+
+  // --- Customer block ---
+  text('Bill To', MARGIN, { font: bold, size: 10 });
+  y -= 14;
+  text(customer.name, MARGIN, { font: bold, width: 300 });
+  y -= 12;
+  for (const line of [
+    ...wrap(customer.address ?? '', regular, 9, 300),
+    `Phone: ${customer.phone}`,
+    customer.email && `Email: ${customer.email}`,
+    customer.gstin ? `GSTIN: ${customer.gstin}` : 'Unregistered (B2C)',
+    customer.state && `State: ${stateName(customer.state)} (${customer.state})`,
+  ]) {
+    if (!line) continue;
+    text(line, MARGIN, { width: 300 });
+    y -= 12;
+  }
+  y -= 12;
+
+  // --- Line items ---
+  header(ITEM_COLUMNS);
+  invoice.items.forEach((item, i) => {
+    row(ITEM_COLUMNS, [
+      String(i + 1), item.name, item.hsnCode ?? '', `${item.quantity} ${item.unit}`, formatAmount(item.price),
+      formatAmount(item.discountAmount + item.invoiceDiscountAmount), formatAmount(item.taxableAmount),
+      `${item.tax}%`, formatAmount(item.cgstAmount), formatAmount(item.sgstAmount), formatAmount(item.igstAmount),
+    ]);
+  });
+  y -= 10;
+
+  // --- Tax breakdown by rate ---
+  const rates = [...new Set(invoice.items.map(item => item.tax))].sort((a, b) => a - b);
+  header(RATE_COLUMNS);
+  for (const rate of rates) {
+    const sum = sumLines(invoice.items.filter(item => item.tax === rate).map(item => savedLine(item.taxableAmount, item)));
+    row(RATE_COLUMNS, [`${rate}%`, formatAmount(sum.taxableAmount), formatAmount(sum.cgstAmount), formatAmount(sum.sgstAmount), formatAmount(sum.igstAmount)]);
+  }
+  y -= 10;
+
+  // --- Totals ---
+  // Rupees are written "Rs."; other currencies by their code.
+  const currency = business.currency === 'INR' ? 'Rs.' : business.currency;
+  const discount = invoice.items.reduce((sum, item) => sum + item.discountAmount + item.invoiceDiscountAmount, 0);
+  const totals: [string, number][] = [
+    ...(discount > 0 ? [['Gross Amount', invoice.taxableAmount + discount], ['Discount', -discount]] as [string, number][] : []),
+    ['Taxable Amount', invoice.taxableAmount],
+    ...(invoice.igstAmount > 0 ? [['IGST', invoice.igstAmount]] as [string, number][] : [['CGST', invoice.cgstAmount], ['SGST', invoice.sgstAmount]] as [string, number][]),
+  ];
+  ensureSpace(totals.length * 14 + 60);
+  for (const [label, amount] of totals) {
+    text(label, PAGE_WIDTH - MARGIN - 200, { width: 100 });
+    text(`${currency} ${formatAmount(amount)}`, PAGE_WIDTH - MARGIN - 100, { width: 100, align: 'right' });
+    y -= 14;
+  }
+  rule();
+  text('Grand Total', PAGE_WIDTH - MARGIN - 200, { font: bold, size: 11, width: 100 });
+  text(`${currency} ${formatAmount(invoice.totalAmount)}`, PAGE_WIDTH - MARGIN - 100, { font: bold, size: 11, width: 100, align: 'right' });
+  y -= 22;
+
+  // The amount is only written in words in rupees and paise.
+  if (business.currency === 'INR') {
+    text('Amount in words:', MARGIN, { font: bold });
+    y -= 12;
+    for (const line of wrap(amountInWords(invoice.totalAmount), regular, 9, PAGE_WIDTH - 2 * MARGIN)) {
+      text(line, MARGIN);
+      y -= 12;
+    }
+    y -= 18;
+  }
+
+  const payment = paymentDetails(business);
+  if (payment.length) {
+    ensureSpace(payment.length * 12 + 14);
+    text('Payment Details', MARGIN, { font: bold });
+    y -= 12;
+    for (const line of payment) {
+      text(line, MARGIN, { width: 300 });
+      y -= 12;
+    }
+    y -= 6;
+  }
+
+  ensureSpace(24);
+  text(`For ${business.name}`, PAGE_WIDTH - MARGIN - 200, { width: 200, align: 'right' });
+  y -= 24;
+  text('This is a computer generated invoice.', MARGIN, { size: 8, color: GREY });
+
+  return pdf.save();
+};
@@ -0,0 +1,49 @@
+import type { Invoice, InvoiceStatus, PaymentMethod } from '~/lib/types';
+
+// Invoice lifecycle rules shared by the server actions and the invoice screens:
+// - a draft can be edited, issued or cancelled
+// - an issued invoice is immutable; payments move it to partially paid and then paid
+// - an invoice can be cancelled (never deleted) as long as no payment or credit note has been recorded against it
+// - goods on an issued invoice are returned with a credit note, which reduces what is still owed
+// - an issued invoice, paid or not, can be emailed to the customer
+// - an invoice still owing money after its due date is overdue
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  issued: 'Issued',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+  cancelled: 'Cancelled',
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  upi: 'UPI',
+  card: 'Card',
+  bank: 'Bank Transfer',
+};
+
+type InvoiceState = Pick<Invoice, 'status' | 'totalAmount' | 'amountPaid' | 'amountCredited'>;
+
+export const isEditable = (invoice: InvoiceState) => invoice.status === 'draft';
+
+export const canReceivePayment = (invoice: InvoiceState) => invoice.status === 'issued' || invoice.status === 'partially_paid';
+
+export const canCancel = (invoice: InvoiceState) => (invoice.status === 'draft' || invoice.status === 'issued') && invoice.amountPaid === 0 && invoice.amountCredited === 0;
+
+export const canCreditNote = (invoice: InvoiceState) => invoice.status === 'issued' || invoice.status === 'partially_paid' || invoice.status === 'paid';
+
+export const canEmail = (invoice: InvoiceState) => invoice.status !== 'draft' && invoice.status !== 'cancelled';
+
+// Only issued invoices are owed; drafts are not yet billed and cancelled invoices are void.
+export const outstandingAmount = (invoice: InvoiceState) => canReceivePayment(invoice) ? Math.max(invoice.totalAmount - invoice.amountPaid - invoice.amountCredited, 0) : 0;
+
+// `amountSettled` is everything paid or credited so far.
+// `today` is YYYY-MM-DD. Invoices issued before payment terms existed have no due date and are never overdue.
+export const isOverdue = (invoice: InvoiceState & Pick<Invoice, 'dueDate'>, today: string) =>
+  !!invoice.dueDate && invoice.dueDate < today && outstandingAmount(invoice) > 0;
+
+export const statusAfterPayment = (totalAmount: number, amountSettled: number): InvoiceStatus => amountSettled >= totalAmount ? 'paid' : 'partially_paid';
+
+// Shown where drafts have no number yet.
+export const invoiceLabel = (invoice: Pick<Invoice, 'id' | 'invoiceNumber'>) => invoice.invoiceNumber ?? `Draft #${invoice.id}`;
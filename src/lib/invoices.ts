@@ -0,0 +1,229 @@
+import { z } from 'zod';
+import { recordAudit } from '~/lib/audit';
+import type { Actor } from '~/lib/audit';
+import type { BusinessProfile } from '~/lib/business';
+import { addDays } from '~/lib/dates';
+import db from '~/lib/db';
+import { discountErrors, discountSchema, priceInvoice } from '~/lib/discounts';
+import type { Discount } from '~/lib/discounts';
+import { isInterState, placeOfSupplyFor } from '~/lib/gst';
+import { canCancel, canReceivePayment, invoiceLabel, isEditable, outstandingAmount, statusAfterPayment } from '~/lib/invoice-status';
+import { formatMoney } from '~/lib/money';
+import type { Paise } from '~/lib/money';
+import { nextDocumentNumber } from '~/lib/numbering';
+import { describeShortage, returnStockForInvoice, takeStockForInvoice } from '~/lib/stock';
+import type { Customer, Invoice, InvoiceLine, Payment, PaymentMethod, Product } from '~/lib/types';
+
+// Thrown when a request breaks an invoice rule, e.g. editing an issued invoice. The message is shown to the user.
+export class InvoiceError extends Error {}
+
+// The invoice lines requested by the invoice form (as `itemsJSON`) or the API. Only product ids, quantities and
+// discounts are accepted; prices and tax rates always come from the products table.
+export const invoiceItemsSchema = z.array(z.object({
+  productId: z.number().int().positive(),
+  quantity: z.number({ invalid_type_error: 'Quantity must be a number' }).int('Quantity must be a whole number').positive('Quantity must be at least 1'),
+  discount: discountSchema.nullish(),
+}), { required_error: 'Add at least one item to the invoice', invalid_type_error: 'Invoice items could not be read.' }).min(1, 'Add at least one item to the invoice');
+
+// Everything else the invoice form and the API send. `intent` saves a draft or issues the invoice straight away.
+export const invoiceInputSchema = z.object({
+  customerId: z.coerce.number().int().positive(),
+  discount: discountSchema.nullish(),
+  intent: z.enum(['draft', 'issue']).default('issue'),
+});
+
+// Field errors are keyed `customerId`, `items` for the whole list, `items.<index>` for a single line and `discount`
+// for the invoice discount.
+export type InvoiceFieldErrors = Record<string, string>;
+
+export interface RequestedLine { product: Product; quantity: number; discount?: Discount | null; }
+
+// The form posts its items as JSON. Anything unreadable is reported like any other bad item list.
+export const readItemsJSON = (itemsJSON: string): unknown => {
+  try {
+    return JSON.parse(itemsJSON);
+  } catch {
+    return null;
+  }
+};
+
+// Checks a requested invoice against the database: the customer and products must exist and not be archived,
+// and no discount may be larger than what it applies to.
+export const checkInvoiceInput = (customerId: number, items: unknown, invoiceDiscount?: Discount | null):
+  { errors: InvoiceFieldErrors } | { customer: Customer; lines: RequestedLine[] } => {
+  const errors: InvoiceFieldErrors = {};
+  const customer = db.prepare('SELECT * FROM customers WHERE id = ?').get(customerId) as Customer | undefined;
+  if (!customer) errors.customerId = 'Select an existing customer.';
+  else if (customer.archivedAt) errors.customerId = `${customer.name} has been archived.`;
+
+  const result = invoiceItemsSchema.safeParse(items);
+  if (!result.success) {
+    for (const issue of result.error.issues) errors[issue.path.length ? `items.${issue.path[0]}` : 'items'] ??= issue.message;
+    return { errors };
+  }
+
+  const productStmt = db.prepare('SELECT * FROM products WHERE id = ?');
+  const lines: RequestedLine[] = [];
+  result.data.forEach((item, index) => {
+    const product = productStmt.get(item.productId) as Product | undefined;
+    if (!product) errors[`items.${index}`] = 'This product no longer exists.';
+    else if (product.archivedAt) errors[`items.${index}`] = `"${product.name}" has been archived and can no longer be sold.`;
+    else lines.push({ product, quantity: item.quantity, discount: item.discount });
+  });
+  if (!customer || Object.keys(errors).length) return { errors };
+
+  const tooLarge = discountErrors(lines.map(({ product, quantity, discount }) => ({ price: product.price, quantity, tax: product.tax, discount })), invoiceDiscount);
+  return Object.keys(tooLarge).length ? { errors: tooLarge } : { customer, lines };
+};
+
+const INVOICE_COLUMNS = `
+  i.id, i.invoiceNumber, i.customerId, i.createdAt, i.totalAmount, i.taxableAmount, i.placeOfSupply,
+  i.cgstAmount, i.sgstAmount, i.igstAmount, i.status, i.issuedAt, i.dueDate, i.cancelledAt, i.cancelReason, i.discountPercent, i.discountAmount,
+  (SELECT COALESCE(SUM(amount), 0) FROM payments WHERE invoiceId = i.id) as amountPaid,
+  (SELECT COALESCE(SUM(totalAmount), 0) FROM credit_notes WHERE invoiceId = i.id) as amountCredited,
+  c.name as customerName, i.createdBy, (SELECT name FROM users WHERE id = i.createdBy) as createdByName
+`;
+
+// Lines are read from what was recorded at the time of sale, never from the current product.
+export const findInvoiceItems = (invoiceId: number) => db.prepare(`
+  SELECT ii.productId as id, ii.nameAtSale as name, ii.descriptionAtSale as description, ii.hsnCodeAtSale as hsnCode, ii.unitAtSale as unit,
+         ii.quantity, ii.priceAtSale as price, ii.taxAtSale as tax,
+         ii.discountPercent, ii.discountAmount, ii.invoiceDiscountAmount,
+         ii.priceAtSale * ii.quantity - ii.discountAmount - ii.invoiceDiscountAmount as taxableAmount,
+         ii.cgstAmount, ii.sgstAmount, ii.igstAmount, ii.id as itemId,
+         (SELECT COALESCE(SUM(quantity), 0) FROM credit_note_items WHERE invoiceItemId = ii.id) as creditedQuantity
+  FROM invoice_items ii
+  WHERE ii.invoiceId = ?
+  ORDER BY ii.id
+`).all(invoiceId) as InvoiceLine[];
+
+export const findInvoicePayments = (invoiceId: number) =>
+  db.prepare('SELECT * FROM payments WHERE invoiceId = ? ORDER BY paidAt, id').all(invoiceId) as Payment[];
+
+export const findInvoice = (id: number) => {
+  const invoice = db.prepare(`
+    SELECT ${INVOICE_COLUMNS}
+    FROM invoices i JOIN customers c ON i.customerId = c.id
+    WHERE i.id = ?
+  `).get(id) as Omit<Invoice, 'items'> | undefined;
+  return invoice ? { ...invoice, items: findInvoiceItems(id), payments: findInvoicePayments(id) } as Invoice : null;
+};
+
+// A saved invoice together with the customer it was billed to, e.g. for printing.
+export const findInvoiceWithCustomer = (id: number) => {
+  const invoice = findInvoice(id);
+  if (!invoice) return null;
+
+  const customer = db.prepare('SELECT * FROM customers WHERE id = ?').get(invoice.customerId) as Customer;
+  return { invoice, customer };
+};
+
+export const requireInvoice = (id: number) => {
+  const invoice = findInvoice(id);
+  if (!invoice) throw new InvoiceError('Invoice not found.');
+  return invoice;
+};
+
+// Takes the goods out of stock, claims the next number of the invoice series and marks the draft as issued,
+// due for payment after the business's payment terms.
+// `stockWarnings` lists what was sold short when the business issues invoices regardless of stock.
+const issueDraft = (draft: Invoice, business: BusinessProfile, actor: Actor) => {
+  const { id } = draft;
+  const shortages = takeStockForInvoice(id);
+  if (shortages.length && business.insufficientStock === 'block') {
+    throw new InvoiceError(`Not enough stock: ${shortages.map(describeShortage).join(', ')}.`);
+  }
+  const issuedAt = new Date();
+  const invoiceNumber = nextDocumentNumber(db, { series: 'invoice', prefix: business.invoicePrefix, padding: business.invoiceNumberPadding }, issuedAt);
+  const dueDate = addDays(issuedAt.toISOString().slice(0, 10), business.dueDays);
+  db.prepare("UPDATE invoices SET status = 'issued', invoiceNumber = ?, issuedAt = ?, dueDate = ? WHERE id = ?").run(invoiceNumber, issuedAt.toISOString(), dueDate, id);
+  recordAudit(actor, { entity: 'invoice', entityId: id, action: 'issue', before: draft, after: findInvoice(id) });
+  return { invoiceNumber, stockWarnings: business.insufficientStock === 'warn' ? shortages.map(describeShortage) : [] };
+};
+
+export interface SaveInvoiceInput { customer: Customer; lines: RequestedLine[]; discount?: Discount | null; draftId?: number; issue: boolean; }
+
+// Creates a draft (or rewrites an existing one) from server-side prices, optionally issuing it straight away.
+// Everything runs in one transaction: all steps must succeed or none do, so there are never partial invoices
+// and a failed save never leaves a gap in the invoice number series. The actor's user is recorded as the
+// invoice's creator when it is first saved, and kept when a draft is edited.
+export const saveInvoice = (input: SaveInvoiceInput, business: BusinessProfile, actor: Actor) => db.transaction(() => {
+  const placeOfSupply = placeOfSupplyFor(input.customer, business.stateCode);
+  const interState = isInterState(business.stateCode, placeOfSupply);
+  const priced = priceInvoice(input.lines.map(({ product, quantity, discount }) => ({ price: product.price, quantity, tax: product.tax, discount })), input.discount, interState);
+  const lines = input.lines.map((line, index) => ({ ...line, ...priced.lines[index] }));
+  const { totals } = priced;
+  const invoiceDiscountPercent = input.discount?.type === 'percent' ? input.discount.value : null;
+
+  let invoiceId: number;
+  let before: Invoice | null = null;
+  if (input.draftId) {
+    const draft = requireInvoice(input.draftId);
+    before = draft;
+    if (!isEditable(draft)) throw new InvoiceError(`Invoice ${invoiceLabel(draft)} has been issued and can no longer be changed.`);
+    db.prepare(`
+      UPDATE invoices SET customerId = ?, totalAmount = ?, placeOfSupply = ?, taxableAmount = ?, cgstAmount = ?, sgstAmount = ?, igstAmount = ?,
+                          discountPercent = ?, discountAmount = ?
+      WHERE id = ?
+    `).run(input.customer.id, totals.totalAmount, placeOfSupply, totals.taxableAmount, totals.cgstAmount, totals.sgstAmount, totals.igstAmount,
+      invoiceDiscountPercent, priced.invoiceDiscountAmount, draft.id);
+    db.prepare('DELETE FROM invoice_items WHERE invoiceId = ?').run(draft.id);
+    invoiceId = draft.id;
+  } else {
+    const result = db.prepare(`
+      INSERT INTO invoices (status, customerId, createdAt, totalAmount, placeOfSupply, taxableAmount, cgstAmount, sgstAmount, igstAmount, discountPercent, discountAmount, createdBy)
+      VALUES ('draft', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(input.customer.id, new Date().toISOString(), totals.totalAmount, placeOfSupply, totals.taxableAmount, totals.cgstAmount, totals.sgstAmount, totals.igstAmount,
+      invoiceDiscountPercent, priced.invoiceDiscountAmount, actor.userId);
+    invoiceId = Number(result.lastInsertRowid);
+  }
+
+  const itemStmt = db.prepare(`
+    INSERT INTO invoice_items (invoiceId, productId, quantity, priceAtSale, taxAtSale, nameAtSale, descriptionAtSale, hsnCodeAtSale, unitAtSale,
+                               discountPercent, discountAmount, invoiceDiscountAmount, cgstAmount, sgstAmount, igstAmount)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const { product, quantity, discount, discountAmount, invoiceDiscountAmount, cgstAmount, sgstAmount, igstAmount } of lines) {
+    itemStmt.run(invoiceId, product.id, quantity, product.price, product.tax, product.name, product.description, product.hsnCode, product.unit,
+      discount?.type === 'percent' ? discount.value : null, discountAmount, invoiceDiscountAmount, cgstAmount, sgstAmount, igstAmount);
+  }
+
+  const saved = findInvoice(invoiceId)!;
+  recordAudit(actor, { entity: 'invoice', entityId: invoiceId, action: before ? 'update' : 'create', before, after: saved });
+  const issued = input.issue ? issueDraft(saved, business, actor) : { invoiceNumber: null, stockWarnings: [] };
+  return { id: invoiceId, ...issued };
+})();
+
+export const issueInvoice = (id: number, business: BusinessProfile, actor: Actor) => db.transaction(() => {
+  const invoice = requireInvoice(id);
+  if (invoice.status !== 'draft') throw new InvoiceError(`Invoice ${invoiceLabel(invoice)} has already been issued.`);
+  if (invoice.items.length === 0) throw new InvoiceError('An invoice without items cannot be issued.');
+  return issueDraft(invoice, business, actor);
+})();
+
+// Cancelled invoices keep their number and rows; they only stop being owed. Their goods go back into stock.
+export const cancelInvoice = (id: number, reason: string, actor: Actor) => db.transaction(() => {
+  const invoice = requireInvoice(id);
+  if (invoice.status === 'cancelled') throw new InvoiceError(`Invoice ${invoiceLabel(invoice)} is already cancelled.`);
+  if (!canCancel(invoice)) throw new InvoiceError(`Invoice ${invoiceLabel(invoice)} has payments recorded and cannot be cancelled.`);
+  db.prepare("UPDATE invoices SET status = 'cancelled', cancelledAt = ?, cancelReason = ? WHERE id = ?").run(new Date().toISOString(), reason, id);
+  returnStockForInvoice(id);
+  recordAudit(actor, { entity: 'invoice', entityId: id, action: 'cancel', before: invoice, after: findInvoice(id) });
+})();
+
+export interface PaymentInput { amount: Paise; paidAt: string; method: PaymentMethod; reference?: string; }
+
+// Records a full or partial payment and moves the invoice to paid or partially paid.
+export const recordPayment = (id: number, { amount, paidAt, method, reference }: PaymentInput, business: BusinessProfile, actor: Actor) => db.transaction(() => {
+  const invoice = requireInvoice(id);
+  if (!canReceivePayment(invoice)) throw new InvoiceError(`Payments can only be recorded against issued, unpaid invoices.`);
+  const outstanding = outstandingAmount(invoice);
+  if (amount > outstanding) throw new InvoiceError(`Payment exceeds the outstanding balance of ${formatMoney(outstanding, business)}.`);
+
+  db.prepare('INSERT INTO payments (invoiceId, amount, paidAt, method, reference, createdAt) VALUES (?, ?, ?, ?, ?, ?)')
+    .run(id, amount, paidAt, method, reference || null, new Date().toISOString());
+  const status = statusAfterPayment(invoice.totalAmount, invoice.amountPaid + invoice.amountCredited + amount);
+  db.prepare('UPDATE invoices SET status = ? WHERE id = ?').run(status, id);
+  recordAudit(actor, { entity: 'invoice', entityId: id, action: 'record_payment', before: invoice, after: findInvoice(id) });
+  return status;
+})();
@@ -0,0 +1,83 @@
+import db from '~/lib/db';
+import { PAYMENT_METHOD_LABELS, invoiceLabel } from '~/lib/invoice-status';
+import type { Paise } from '~/lib/money';
+import type { InvoiceStatus, PaymentMethod } from '~/lib/types';
+
+// A customer's account: issued invoices are debits, payments and credit notes are credits. Drafts are not billed yet
+// and cancelled invoices are void, so neither appears.
+
+export interface LedgerEntry {
+  date: string; // YYYY-MM-DD
+  type: 'invoice' | 'payment' | 'credit_note';
+  description: string;
+  debit: Paise;
+  credit: Paise;
+  balance: Paise;
+}
+
+// Outstanding amounts by the age of the invoice, in days since it was issued.
+export interface Ageing { days0to30: Paise; days31to60: Paise; days61to90: Paise; over90: Paise; }
+
+export interface CustomerLedger { entries: LedgerEntry[]; outstanding: Paise; ageing: Ageing; }
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const customerLedger = (customerId: number, asOf = new Date()): CustomerLedger => {
+  const invoices = db.prepare(`
+    SELECT i.id, i.invoiceNumber, i.issuedAt, i.totalAmount, i.status,
+           (SELECT COALESCE(SUM(amount), 0) FROM payments WHERE invoiceId = i.id) as amountPaid,
+           (SELECT COALESCE(SUM(totalAmount), 0) FROM credit_notes WHERE invoiceId = i.id) as amountCredited
+    FROM invoices i
+    WHERE i.customerId = ? AND i.status IN ('issued', 'partially_paid', 'paid')
+  `).all(customerId) as { id: number; invoiceNumber: string; issuedAt: string; totalAmount: Paise; status: InvoiceStatus; amountPaid: Paise; amountCredited: Paise }[];
+
+  const payments = db.prepare(`
+    SELECT p.amount, p.paidAt, p.method, p.reference, i.id as invoiceId, i.invoiceNumber
+    FROM payments p JOIN invoices i ON p.invoiceId = i.id
+    WHERE i.customerId = ? AND i.status != 'cancelled'
+  `).all(customerId) as { amount: Paise; paidAt: string; method: PaymentMethod; reference: string | null; invoiceId: number; invoiceNumber: string }[];
+
+  const creditNotes = db.prepare(`
+    SELECT cn.creditNoteNumber, cn.createdAt, cn.totalAmount, i.invoiceNumber
+    FROM credit_notes cn JOIN invoices i ON cn.invoiceId = i.id
+    WHERE i.customerId = ?
+  `).all(customerId) as { creditNoteNumber: string; createdAt: string; totalAmount: Paise; invoiceNumber: string }[];
+
+  const order = { invoice: 0, credit_note: 1, payment: 2 };
+  const rows = [
+    ...invoices.map(inv => ({ date: inv.issuedAt.slice(0, 10), type: 'invoice' as const, description: `Invoice ${invoiceLabel(inv)}`, debit: inv.totalAmount, credit: 0 })),
+    ...payments.map(p => ({
+      date: p.paidAt.slice(0, 10),
+      type: 'payment' as const,
+      description: `${PAYMENT_METHOD_LABELS[p.method]} payment for ${invoiceLabel({ id: p.invoiceId, invoiceNumber: p.invoiceNumber })}${p.reference ? ` (Ref: ${p.reference})` : ''}`,
+      debit: 0,
+      credit: p.amount,
+    })),
+    ...creditNotes.map(cn => ({
+      date: cn.createdAt.slice(0, 10),
+      type: 'credit_note' as const,
+      description: `Credit note ${cn.creditNoteNumber} against ${cn.invoiceNumber}`,
+      debit: 0,
+      credit: cn.totalAmount,
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || order[a.type] - order[b.type]);
+
+  let balance = 0;
+  const entries = rows.map(row => {
+    balance += row.debit - row.credit;
+    return { ...row, balance };
+  });
+
+  const ageing: Ageing = { days0to30: 0, days31to60: 0, days61to90: 0, over90: 0 };
+  for (const inv of invoices) {
+    const due = inv.totalAmount - inv.amountPaid - inv.amountCredited;
+    if (due <= 0) continue;
+    const age = Math.floor((asOf.getTime() - new Date(inv.issuedAt).getTime()) / DAY);
+    if (age <= 30) ageing.days0to30 += due;
+    else if (age <= 60) ageing.days31to60 += due;
+    else if (age <= 90) ageing.days61to90 += due;
+    else ageing.over90 += due;
+  }
+
+  return { entries, outstanding: balance, ageing };
+};
@@ -0,0 +1,65 @@
+import type { EnvGetter } from '@builder.io/qwik-city/middleware/request-handler';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createTransport } from 'nodemailer';
+
+// Outgoing email. Messages go through one of the transports below, picked with MAIL_TRANSPORT: `smtp` sends
+// them through the server in SMTP_URL, `file` writes each one to MAIL_DIR as an .eml file that any mail client
+// opens, and `console` only prints them, for local use. Another transport is added to MAIL_TRANSPORTS.
+
+export const MAIL_TRANSPORT_NAMES = ['smtp', 'file', 'console'] as const;
+
+export type MailTransportName = typeof MAIL_TRANSPORT_NAMES[number];
+
+export interface MailConfig { transport: MailTransportName; smtpUrl: string; from: string; dir: string; }
+
+export const getMailConfig = (env: EnvGetter): MailConfig => ({
+  transport: MAIL_TRANSPORT_NAMES.find(name => name === env.get('MAIL_TRANSPORT')) ?? 'console',
+  smtpUrl: env.get('SMTP_URL') ?? '',
+  from: env.get('MAIL_FROM') ?? 'invoices@localhost',
+  dir: env.get('MAIL_DIR') ?? 'mail',
+});
+
+// Thrown when a transport can't take a message. The message is shown to the user.
+export class MailError extends Error {}
+
+export interface MailAttachment { filename: string; contentType: string; content: Uint8Array; }
+
+// `from` is a display name, sent from the configured address.
+export interface MailMessage { from: string; to: string; subject: string; text: string; html: string; attachments: MailAttachment[]; }
+
+// `messageId` identifies the message to the transport, e.g. in the SMTP server's logs.
+export interface MailTransport { send: (message: MailMessage) => Promise<{ messageId: string }>; }
+
+const toNodemailer = (message: MailMessage, config: MailConfig) => ({
+  ...message,
+  from: { name: message.from, address: config.from },
+  attachments: message.attachments.map(({ filename, contentType, content }) => ({ filename, contentType, content: Buffer.from(content) })),
+});
+
+const MAIL_TRANSPORTS: Record<MailTransportName, (config: MailConfig) => MailTransport> = {
+  smtp: config => ({
+    send: async (message) => {
+      if (!config.smtpUrl) throw new MailError('No mail server is configured: set SMTP_URL.');
+      const info = await createTransport(config.smtpUrl).sendMail(toNodemailer(message, config));
+      return { messageId: info.messageId };
+    },
+  }),
+  file: config => ({
+    send: async (message) => {
+      const info = await createTransport({ streamTransport: true, buffer: true }).sendMail(toNodemailer(message, config));
+      await mkdir(config.dir, { recursive: true });
+      await writeFile(join(config.dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^\w.@-]/g, '_')}.eml`), info.message as Buffer);
+      return { messageId: info.messageId };
+    },
+  }),
+  console: () => ({
+    send: async (message) => {
+      const attachments = message.attachments.map(attachment => `${attachment.filename} (${attachment.content.length} bytes)`).join(', ');
+      console.log(`Email to ${message.to}: ${message.subject}\n${message.text}\nAttachments: ${attachments || 'none'}`);
+      return { messageId: `console-${Date.now()}` };
+    },
+  }),
+};
+
+export const createMailTransport = (config: MailConfig) => MAIL_TRANSPORTS[config.transport](config);
@@ -0,0 +1,44 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import { migrations as allMigrations } from './migrations';
+
+// Schema migrations. The version of the last applied migration is kept in SQLite's `user_version`
+// header field, and every migration runs in its own transaction together with the version bump,
+// so a failing migration leaves the database exactly as it was.
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: BetterSqlite3.Database) => void;
+}
+
+export const schemaVersion = (db: BetterSqlite3.Database) => db.pragma('user_version', { simple: true }) as number;
+
+export const pendingMigrations = (db: BetterSqlite3.Database, migrations: Migration[] = allMigrations) => {
+  const current = schemaVersion(db);
+  const latest = Math.max(0, ...migrations.map(m => m.version));
+  if (current > latest) {
+    throw new Error(`Database schema version ${current} is newer than this build supports (${latest}).`);
+  }
+  return migrations.filter(m => m.version > current).sort((a, b) => a.version - b.version);
+};
+
+export const migrate = (db: BetterSqlite3.Database, migrations: Migration[] = allMigrations) => {
+  const pending = pendingMigrations(db, migrations);
+  for (const migration of pending) {
+    // Foreign keys can only be switched off outside a transaction; table rebuilds need them off.
+    db.pragma('foreign_keys = OFF');
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        if ((db.pragma('foreign_key_check') as unknown[]).length > 0) {
+          throw new Error(`Migration ${migration.version} (${migration.name}) left rows violating foreign keys.`);
+        }
+        db.pragma(`user_version = ${migration.version}`);
+      })();
+    } finally {
+      db.pragma('foreign_keys = ON');
+    }
+    console.log(`Applied migration ${migration.version}: ${migration.name}`);
+  }
+  return pending;
+};
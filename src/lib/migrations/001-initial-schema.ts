@@ -0,0 +1,45 @@
+import type { Migration } from '../migrate';
+
+// The original schema. IF NOT EXISTS keeps it safe for databases created before migrations existed.
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial-schema',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS customers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        phone TEXT NOT NULL UNIQUE,
+        email TEXT,
+        address TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS products (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        description TEXT,
+        price REAL NOT NULL,
+        tax REAL NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS invoices (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        customerId INTEGER NOT NULL,
+        createdAt TEXT NOT NULL,
+        totalAmount REAL NOT NULL,
+        FOREIGN KEY (customerId) REFERENCES customers (id)
+      );
+
+      CREATE TABLE IF NOT EXISTS invoice_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        invoiceId INTEGER NOT NULL,
+        productId INTEGER NOT NULL,
+        quantity INTEGER NOT NULL,
+        priceAtSale REAL NOT NULL, -- Store price at time of sale
+        taxAtSale REAL NOT NULL,   -- Store tax at time of sale
+        FOREIGN KEY (invoiceId) REFERENCES invoices (id),
+        FOREIGN KEY (productId) REFERENCES products (id)
+      );
+    `);
+  },
+};
@@ -0,0 +1,40 @@
+import type { Migration } from '../migrate';
+import { addColumnIfMissing } from './helpers';
+
+// Customer state/GSTIN and the CGST/SGST/IGST breakdown on invoices and their items. Invoices issued before the split
+// were all intra-state sales in the seller's own state, so their tax is backfilled as CGST + SGST.
+export const gstSplit: Migration = {
+  version: 2,
+  name: 'gst-split',
+  up: (db) => {
+    addColumnIfMissing(db, 'customers', 'state', 'TEXT'); // GST state code, used as the place of supply
+    addColumnIfMissing(db, 'customers', 'gstin', 'TEXT');
+    addColumnIfMissing(db, 'invoices', 'placeOfSupply', 'TEXT');
+    if (addColumnIfMissing(db, 'invoices', 'taxableAmount', 'REAL NOT NULL DEFAULT 0')) {
+      db.exec('UPDATE invoices SET taxableAmount = (SELECT COALESCE(SUM(priceAtSale * quantity), 0) FROM invoice_items WHERE invoiceId = invoices.id)');
+    }
+    const added = ['invoices', 'invoice_items'].map(table => [
+      addColumnIfMissing(db, table, 'cgstAmount', 'REAL NOT NULL DEFAULT 0'),
+      addColumnIfMissing(db, table, 'sgstAmount', 'REAL NOT NULL DEFAULT 0'),
+      addColumnIfMissing(db, table, 'igstAmount', 'REAL NOT NULL DEFAULT 0'),
+    ].some(Boolean));
+    if (!added.some(Boolean)) return;
+
+    // Amounts are still REAL rupees here (see 004). Each half of a line's tax is rounded half away from zero to the
+    // paisa, as lib/money.ts did when this migration was written; the rounding is kept here so it never changes.
+    const roundHalfUp = (value: number) => Math.sign(value) * Math.round(Math.abs(Number(value.toFixed(6))));
+    const items = db.prepare('SELECT id, priceAtSale, quantity, taxAtSale FROM invoice_items').all() as { id: number; priceAtSale: number; quantity: number; taxAtSale: number }[];
+    const updateItem = db.prepare('UPDATE invoice_items SET cgstAmount = @half, sgstAmount = @half, igstAmount = 0 WHERE id = @id');
+    for (const item of items) {
+      const half = roundHalfUp(roundHalfUp(item.priceAtSale * 100) * item.quantity * item.taxAtSale / 200);
+      updateItem.run({ id: item.id, half: half / 100 });
+    }
+    db.exec(`
+      UPDATE invoices SET
+        cgstAmount = (SELECT COALESCE(ROUND(SUM(cgstAmount), 2), 0) FROM invoice_items WHERE invoiceId = invoices.id),
+        sgstAmount = (SELECT COALESCE(ROUND(SUM(sgstAmount), 2), 0) FROM invoice_items WHERE invoiceId = invoices.id),
+        igstAmount = 0
+    `);
+    db.prepare('UPDATE invoices SET placeOfSupply = ? WHERE placeOfSupply IS NULL').run(process.env.BUSINESS_STATE_CODE ?? '29');
+  },
+};
@@ -0,0 +1,41 @@
+import type { Migration } from '../migrate';
+import { addColumnIfMissing } from './helpers';
+
+// Per-financial-year document number series. Existing invoices are numbered in the order they were created, as
+// lib/numbering.ts numbers them; the numbering is copied here so it never changes for databases not yet upgraded.
+const financialYearOf = (date: Date) => {
+  const startYear = date.getUTCMonth() >= 3 ? date.getUTCFullYear() : date.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+export const invoiceNumbering: Migration = {
+  version: 3,
+  name: 'invoice-numbering',
+  up: (db) => {
+    db.exec(`
+      -- Last number issued per document series and financial year
+      CREATE TABLE IF NOT EXISTS document_sequences (
+        series TEXT NOT NULL,
+        financialYear TEXT NOT NULL,
+        lastNumber INTEGER NOT NULL,
+        PRIMARY KEY (series, financialYear)
+      );
+    `);
+    addColumnIfMissing(db, 'invoices', 'invoiceNumber', 'TEXT'); // e.g. INV/2026-27/0001, see lib/numbering.ts
+
+    const unnumbered = db.prepare('SELECT id, createdAt FROM invoices WHERE invoiceNumber IS NULL ORDER BY createdAt, id').all() as { id: number; createdAt: string }[];
+    const prefix = process.env.INVOICE_NUMBER_PREFIX ?? 'INV';
+    const padding = Number(process.env.INVOICE_NUMBER_PADDING ?? 4);
+    const claim = db.prepare(`
+      INSERT INTO document_sequences (series, financialYear, lastNumber) VALUES ('invoice', ?, 1)
+      ON CONFLICT DO UPDATE SET lastNumber = lastNumber + 1
+      RETURNING lastNumber
+    `);
+    for (const invoice of unnumbered) {
+      const financialYear = financialYearOf(new Date(invoice.createdAt));
+      const { lastNumber } = claim.get(financialYear) as { lastNumber: number };
+      db.prepare('UPDATE invoices SET invoiceNumber = ? WHERE id = ?').run(`${prefix}/${financialYear}/${String(lastNumber).padStart(padding, '0')}`, invoice.id);
+    }
+    db.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_invoice_number ON invoices (invoiceNumber);');
+  },
+};
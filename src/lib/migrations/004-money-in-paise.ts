@@ -0,0 +1,67 @@
+import type { Migration } from '../migrate';
+import { columnType } from './helpers';
+
+// Amounts were first stored as REAL rupees. Rebuild the tables holding money with INTEGER paise columns
+// and convert the existing values; SQLite cannot change a column's type in place.
+export const moneyInPaise: Migration = {
+  version: 4,
+  name: 'money-in-paise',
+  up: (db) => {
+    if (columnType(db, 'products', 'price') !== 'REAL') return; // converted before migrations were versioned
+
+    const paise = (column: string) => `CAST(ROUND(${column} * 100) AS INTEGER)`;
+    db.exec(`
+      CREATE TABLE products_paise (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        description TEXT,
+        price INTEGER NOT NULL,
+        tax REAL NOT NULL
+      );
+      INSERT INTO products_paise (id, name, description, price, tax)
+        SELECT id, name, description, ${paise('price')}, tax FROM products;
+      DROP TABLE products;
+      ALTER TABLE products_paise RENAME TO products;
+
+      CREATE TABLE invoices_paise (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        customerId INTEGER NOT NULL,
+        createdAt TEXT NOT NULL,
+        totalAmount INTEGER NOT NULL,
+        placeOfSupply TEXT,
+        taxableAmount INTEGER NOT NULL DEFAULT 0,
+        cgstAmount INTEGER NOT NULL DEFAULT 0,
+        sgstAmount INTEGER NOT NULL DEFAULT 0,
+        igstAmount INTEGER NOT NULL DEFAULT 0,
+        invoiceNumber TEXT,
+        FOREIGN KEY (customerId) REFERENCES customers (id)
+      );
+      INSERT INTO invoices_paise (id, customerId, createdAt, totalAmount, placeOfSupply, taxableAmount, cgstAmount, sgstAmount, igstAmount, invoiceNumber)
+        SELECT id, customerId, createdAt, ${paise('totalAmount')}, placeOfSupply, ${paise('taxableAmount')},
+               ${paise('cgstAmount')}, ${paise('sgstAmount')}, ${paise('igstAmount')}, invoiceNumber FROM invoices;
+      DROP TABLE invoices;
+      ALTER TABLE invoices_paise RENAME TO invoices;
+
+      CREATE TABLE invoice_items_paise (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        invoiceId INTEGER NOT NULL,
+        productId INTEGER NOT NULL,
+        quantity INTEGER NOT NULL,
+        priceAtSale INTEGER NOT NULL,
+        taxAtSale REAL NOT NULL,
+        cgstAmount INTEGER NOT NULL DEFAULT 0,
+        sgstAmount INTEGER NOT NULL DEFAULT 0,
+        igstAmount INTEGER NOT NULL DEFAULT 0,
+        FOREIGN KEY (invoiceId) REFERENCES invoices (id),
+        FOREIGN KEY (productId) REFERENCES products (id)
+      );
+      INSERT INTO invoice_items_paise (id, invoiceId, productId, quantity, priceAtSale, taxAtSale, cgstAmount, sgstAmount, igstAmount)
+        SELECT id, invoiceId, productId, quantity, ${paise('priceAtSale')}, taxAtSale,
+               ${paise('cgstAmount')}, ${paise('sgstAmount')}, ${paise('igstAmount')} FROM invoice_items;
+      DROP TABLE invoice_items;
+      ALTER TABLE invoice_items_paise RENAME TO invoice_items;
+    `);
+    // Dropping the old invoices table dropped its index as well.
+    db.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_invoice_number ON invoices (invoiceNumber);');
+  },
+};
@@ -0,0 +1,28 @@
+import type { Migration } from '../migrate';
+
+// Invoice status (draft -> issued -> partially paid / paid, or cancelled) and the payments that drive it.
+// Invoices saved before this point were final, so they become issued on their creation date.
+export const invoiceLifecycle: Migration = {
+  version: 5,
+  name: 'invoice-lifecycle',
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE invoices ADD COLUMN status TEXT NOT NULL DEFAULT 'issued'
+        CHECK (status IN ('draft', 'issued', 'partially_paid', 'paid', 'cancelled'));
+      ALTER TABLE invoices ADD COLUMN issuedAt TEXT;
+      ALTER TABLE invoices ADD COLUMN cancelledAt TEXT;
+      ALTER TABLE invoices ADD COLUMN cancelReason TEXT;
+      UPDATE invoices SET issuedAt = createdAt;
+
+      CREATE TABLE payments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        invoiceId INTEGER NOT NULL,
+        amount INTEGER NOT NULL CHECK (amount > 0), -- paise
+        paidAt TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY (invoiceId) REFERENCES invoices (id)
+      );
+      CREATE INDEX idx_payments_invoice ON payments (invoiceId);
+    `);
+  },
+};
@@ -0,0 +1,14 @@
+import type { Migration } from '../migrate';
+
+// How a payment was made and its reference (UPI transaction id, cheque number, ...).
+export const paymentDetails: Migration = {
+  version: 6,
+  name: 'payment-details',
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE payments ADD COLUMN method TEXT NOT NULL DEFAULT 'cash' CHECK (method IN ('cash', 'upi', 'card', 'bank'));
+      ALTER TABLE payments ADD COLUMN reference TEXT;
+      CREATE INDEX idx_invoices_customer ON invoices (customerId);
+    `);
+  },
+};
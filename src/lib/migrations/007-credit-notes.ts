@@ -0,0 +1,41 @@
+import type { Migration } from '../migrate';
+
+// Credit notes for returned goods. Each line points at the invoice line it reverses, so the quantity
+// already credited against an invoice line can always be summed up.
+export const creditNotes: Migration = {
+  version: 7,
+  name: 'credit-notes',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE credit_notes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        creditNoteNumber TEXT NOT NULL UNIQUE,
+        invoiceId INTEGER NOT NULL,
+        reason TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        taxableAmount INTEGER NOT NULL,
+        cgstAmount INTEGER NOT NULL,
+        sgstAmount INTEGER NOT NULL,
+        igstAmount INTEGER NOT NULL,
+        totalAmount INTEGER NOT NULL,
+        FOREIGN KEY (invoiceId) REFERENCES invoices (id)
+      );
+      CREATE INDEX idx_credit_notes_invoice ON credit_notes (invoiceId);
+
+      CREATE TABLE credit_note_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        creditNoteId INTEGER NOT NULL,
+        invoiceItemId INTEGER NOT NULL,
+        quantity INTEGER NOT NULL CHECK (quantity > 0),
+        priceAtSale INTEGER NOT NULL,
+        taxAtSale REAL NOT NULL,
+        cgstAmount INTEGER NOT NULL,
+        sgstAmount INTEGER NOT NULL,
+        igstAmount INTEGER NOT NULL,
+        FOREIGN KEY (creditNoteId) REFERENCES credit_notes (id),
+        FOREIGN KEY (invoiceItemId) REFERENCES invoice_items (id)
+      );
+      CREATE INDEX idx_credit_note_items_invoice_item ON credit_note_items (invoiceItemId);
+    `);
+  },
+};
@@ -0,0 +1,13 @@
+import type { Migration } from '../migrate';
+
+// Customers and products that appear on invoices can't be deleted, so they are archived instead.
+export const archiving: Migration = {
+  version: 8,
+  name: 'archiving',
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE customers ADD COLUMN archivedAt TEXT;
+      ALTER TABLE products ADD COLUMN archivedAt TEXT;
+    `);
+  },
+};
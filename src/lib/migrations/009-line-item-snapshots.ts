@@ -0,0 +1,27 @@
+import type { Migration } from '../migrate';
+
+// Invoice lines keep their own copy of the product details, like they already do for price and tax,
+// so renaming or editing a product no longer changes past invoices. Products gain an HSN/SAC code
+// and a unit to copy from. Existing lines are filled from the product as it is today, which is the
+// best record there is of what was sold.
+export const lineItemSnapshots: Migration = {
+  version: 9,
+  name: 'line-item-snapshots',
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE products ADD COLUMN hsnCode TEXT;
+      ALTER TABLE products ADD COLUMN unit TEXT NOT NULL DEFAULT 'NOS';
+
+      ALTER TABLE invoice_items ADD COLUMN nameAtSale TEXT;
+      ALTER TABLE invoice_items ADD COLUMN descriptionAtSale TEXT;
+      ALTER TABLE invoice_items ADD COLUMN hsnCodeAtSale TEXT;
+      ALTER TABLE invoice_items ADD COLUMN unitAtSale TEXT;
+
+      UPDATE invoice_items SET
+        nameAtSale = (SELECT name FROM products WHERE id = invoice_items.productId),
+        descriptionAtSale = (SELECT description FROM products WHERE id = invoice_items.productId),
+        hsnCodeAtSale = (SELECT hsnCode FROM products WHERE id = invoice_items.productId),
+        unitAtSale = (SELECT unit FROM products WHERE id = invoice_items.productId);
+    `);
+  },
+};
@@ -0,0 +1,26 @@
+import type { Migration } from '../migrate';
+
+// Customers are looked up by phone as well as by name and email. The phone number is also kept as bare
+// digits (see lib/phone.ts), so "+91 98765 43210" and "9876543210" find the same customer. The existing numbers are
+// normalised as lib/phone.ts did when this migration was written; the copy here keeps it from changing.
+const normalizePhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  const international = phone.trim().match(/^(\+|00)91/);
+  if (international) return digits.slice(international[0].length - (international[1] === '+' ? 1 : 0));
+  if (digits.length === 12 && digits.startsWith('91')) return digits.slice(2);
+  if (digits.length === 11 && digits.startsWith('0')) return digits.slice(1);
+  return digits;
+};
+
+export const customerSearch: Migration = {
+  version: 10,
+  name: 'customer-search',
+  up: (db) => {
+    db.exec('ALTER TABLE customers ADD COLUMN phoneDigits TEXT');
+    const update = db.prepare('UPDATE customers SET phoneDigits = ? WHERE id = ?');
+    for (const { id, phone } of db.prepare('SELECT id, phone FROM customers').all() as { id: number; phone: string }[]) {
+      update.run(normalizePhone(phone), id);
+    }
+    db.exec('CREATE INDEX idx_customers_phone_digits ON customers (phoneDigits)');
+  },
+};
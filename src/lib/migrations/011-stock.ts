@@ -0,0 +1,32 @@
+import type { Migration } from '../migrate';
+
+// Products gain a SKU and a stock count. `stock` stays NULL for products whose stock isn't tracked
+// (services, or goods nobody has counted yet), which is every existing product. Every change to a count
+// is kept in `stock_movements`, so the count can always be explained and a cancelled sale put back.
+export const stock: Migration = {
+  version: 11,
+  name: 'stock',
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE products ADD COLUMN sku TEXT;
+      ALTER TABLE products ADD COLUMN stock INTEGER;
+      ALTER TABLE products ADD COLUMN lowStockLevel INTEGER;
+      CREATE UNIQUE INDEX idx_products_sku ON products (sku) WHERE sku IS NOT NULL;
+
+      CREATE TABLE stock_movements (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        productId INTEGER NOT NULL,
+        quantity INTEGER NOT NULL CHECK (quantity != 0),
+        reason TEXT NOT NULL CHECK (reason IN ('opening', 'sale', 'cancellation', 'return', 'correction')),
+        invoiceId INTEGER,
+        note TEXT,
+        stockAfter INTEGER NOT NULL,
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY (productId) REFERENCES products (id),
+        FOREIGN KEY (invoiceId) REFERENCES invoices (id)
+      );
+      CREATE INDEX idx_stock_movements_product ON stock_movements (productId);
+      CREATE INDEX idx_stock_movements_invoice ON stock_movements (invoiceId);
+    `);
+  },
+};
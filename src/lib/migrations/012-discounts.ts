@@ -0,0 +1,23 @@
+import type { Migration } from '../migrate';
+
+// Line and invoice discounts. Amounts are stored as applied, in paise; the percentage is kept alongside
+// for discounts given as one (NULL for fixed discounts). A line's taxable value is now its price x quantity
+// less `discountAmount` and its share of the invoice discount, `invoiceDiscountAmount`.
+// Credit note lines store their taxable value too, since it can no longer be worked out from price x quantity.
+export const discounts: Migration = {
+  version: 12,
+  name: 'discounts',
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE invoice_items ADD COLUMN discountPercent REAL;
+      ALTER TABLE invoice_items ADD COLUMN discountAmount INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE invoice_items ADD COLUMN invoiceDiscountAmount INTEGER NOT NULL DEFAULT 0;
+
+      ALTER TABLE invoices ADD COLUMN discountPercent REAL;
+      ALTER TABLE invoices ADD COLUMN discountAmount INTEGER NOT NULL DEFAULT 0;
+
+      ALTER TABLE credit_note_items ADD COLUMN taxableAmount INTEGER NOT NULL DEFAULT 0;
+      UPDATE credit_note_items SET taxableAmount = priceAtSale * quantity;
+    `);
+  },
+};
@@ -0,0 +1,32 @@
+import type { Migration } from '../migrate';
+
+// Local user accounts and their login sessions. Sessions are stored by a hash of the cookie token, so a copy
+// of the database can't be used to log in. Invoices record who created them; existing ones stay NULL.
+export const users: Migration = {
+  version: 13,
+  name: 'users',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        name TEXT NOT NULL,
+        passwordHash TEXT NOT NULL,
+        role TEXT NOT NULL CHECK (role IN ('admin', 'cashier', 'viewer')),
+        createdAt TEXT NOT NULL,
+        disabledAt TEXT
+      );
+
+      CREATE TABLE sessions (
+        tokenHash TEXT PRIMARY KEY,
+        userId INTEGER NOT NULL,
+        createdAt TEXT NOT NULL,
+        expiresAt TEXT NOT NULL,
+        FOREIGN KEY (userId) REFERENCES users (id)
+      );
+      CREATE INDEX idx_sessions_user ON sessions (userId);
+
+      ALTER TABLE invoices ADD COLUMN createdBy INTEGER REFERENCES users (id);
+    `);
+  },
+};
@@ -0,0 +1,33 @@
+import type { Migration } from '../migrate';
+
+// Every change to customers, products, invoices, credit notes and users is logged with the record as it was
+// before and after. The log is append-only: triggers refuse to change or delete its rows. `entityId` has no
+// foreign key, as deleted records keep their history.
+export const auditLog: Migration = {
+  version: 14,
+  name: 'audit-log',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entity TEXT NOT NULL,
+        entityId INTEGER NOT NULL,
+        action TEXT NOT NULL,
+        before TEXT,
+        after TEXT,
+        userId INTEGER,
+        source TEXT NOT NULL CHECK (source IN ('web', 'api', 'system')),
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY (userId) REFERENCES users (id)
+      );
+      CREATE INDEX idx_audit_log_entity ON audit_log (entity, entityId);
+      CREATE INDEX idx_audit_log_created ON audit_log (createdAt);
+      CREATE INDEX idx_audit_log_user ON audit_log (userId);
+
+      CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+      BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+      CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+      BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+    `);
+  },
+};
@@ -0,0 +1,57 @@
+import type { Migration } from '../migrate';
+
+// Quotations price a sale before it happens. They are numbered in their own series when saved, keep a copy of
+// each product as quoted like invoice lines do, and point at the invoice they were converted into.
+export const quotations: Migration = {
+  version: 15,
+  name: 'quotations',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE quotations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        quotationNumber TEXT NOT NULL UNIQUE,
+        customerId INTEGER NOT NULL,
+        createdAt TEXT NOT NULL,
+        validUntil TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'rejected', 'converted')),
+        respondedAt TEXT,
+        placeOfSupply TEXT,
+        taxableAmount INTEGER NOT NULL,
+        cgstAmount INTEGER NOT NULL,
+        sgstAmount INTEGER NOT NULL,
+        igstAmount INTEGER NOT NULL,
+        totalAmount INTEGER NOT NULL,
+        discountPercent REAL,
+        discountAmount INTEGER NOT NULL DEFAULT 0,
+        invoiceId INTEGER,
+        createdBy INTEGER,
+        FOREIGN KEY (customerId) REFERENCES customers (id),
+        FOREIGN KEY (invoiceId) REFERENCES invoices (id),
+        FOREIGN KEY (createdBy) REFERENCES users (id)
+      );
+      CREATE INDEX idx_quotations_customer ON quotations (customerId);
+
+      CREATE TABLE quotation_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        quotationId INTEGER NOT NULL,
+        productId INTEGER NOT NULL,
+        quantity INTEGER NOT NULL,
+        price INTEGER NOT NULL,
+        tax REAL NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT,
+        hsnCode TEXT,
+        unit TEXT NOT NULL,
+        discountPercent REAL,
+        discountAmount INTEGER NOT NULL DEFAULT 0,
+        invoiceDiscountAmount INTEGER NOT NULL DEFAULT 0,
+        cgstAmount INTEGER NOT NULL,
+        sgstAmount INTEGER NOT NULL,
+        igstAmount INTEGER NOT NULL,
+        FOREIGN KEY (quotationId) REFERENCES quotations (id),
+        FOREIGN KEY (productId) REFERENCES products (id)
+      );
+      CREATE INDEX idx_quotation_items_quotation ON quotation_items (quotationId);
+    `);
+  },
+};
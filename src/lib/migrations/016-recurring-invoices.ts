@@ -0,0 +1,53 @@
+import type { Migration } from '../migrate';
+
+// Recurring invoice templates: a customer, products, quantities and discounts billed on a schedule. Prices are not
+// kept; each invoice is priced from the products when it is generated. `recurring_invoice_runs` has one row per
+// template and period, so a period can only ever be invoiced once, however often the generator runs.
+export const recurringInvoices: Migration = {
+  version: 16,
+  name: 'recurring-invoices',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE recurring_invoices (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        customerId INTEGER NOT NULL,
+        frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+        startDate TEXT NOT NULL,
+        endDate TEXT,
+        nextRunDate TEXT,
+        issue INTEGER NOT NULL DEFAULT 1,
+        discountPercent REAL,
+        discountAmount INTEGER NOT NULL DEFAULT 0,
+        pausedAt TEXT,
+        lastError TEXT,
+        createdAt TEXT NOT NULL,
+        createdBy INTEGER,
+        FOREIGN KEY (customerId) REFERENCES customers (id),
+        FOREIGN KEY (createdBy) REFERENCES users (id)
+      );
+      CREATE INDEX idx_recurring_invoices_next_run ON recurring_invoices (nextRunDate);
+
+      CREATE TABLE recurring_invoice_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        recurringInvoiceId INTEGER NOT NULL,
+        productId INTEGER NOT NULL,
+        quantity INTEGER NOT NULL CHECK (quantity > 0),
+        discountPercent REAL,
+        discountAmount INTEGER NOT NULL DEFAULT 0,
+        FOREIGN KEY (recurringInvoiceId) REFERENCES recurring_invoices (id),
+        FOREIGN KEY (productId) REFERENCES products (id)
+      );
+      CREATE INDEX idx_recurring_invoice_items_template ON recurring_invoice_items (recurringInvoiceId);
+
+      CREATE TABLE recurring_invoice_runs (
+        recurringInvoiceId INTEGER NOT NULL,
+        period TEXT NOT NULL,
+        invoiceId INTEGER NOT NULL,
+        createdAt TEXT NOT NULL,
+        PRIMARY KEY (recurringInvoiceId, period),
+        FOREIGN KEY (recurringInvoiceId) REFERENCES recurring_invoices (id),
+        FOREIGN KEY (invoiceId) REFERENCES invoices (id)
+      );
+    `);
+  },
+};
@@ -0,0 +1,27 @@
+import type { Migration } from '../migrate';
+
+// One row for every attempt to email an invoice, sent or failed, with the transport that took it and the
+// transport's message id or error.
+export const invoiceEmails: Migration = {
+  version: 17,
+  name: 'invoice-emails',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE invoice_emails (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        invoiceId INTEGER NOT NULL,
+        recipient TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        transport TEXT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+        messageId TEXT,
+        error TEXT,
+        createdAt TEXT NOT NULL,
+        sentBy INTEGER,
+        FOREIGN KEY (invoiceId) REFERENCES invoices (id),
+        FOREIGN KEY (sentBy) REFERENCES users (id)
+      );
+      CREATE INDEX idx_invoice_emails_invoice ON invoice_emails (invoiceId);
+    `);
+  },
+};
@@ -0,0 +1,33 @@
+import type { Migration } from '../migrate';
+
+// The seller's details as edited on the settings page: a single row, absent until the settings are first saved,
+// which then takes the place of the BUSINESS_* environment variables. Invoices get the date payment is due,
+// set when they are issued; invoices issued before payment terms existed have none.
+export const businessSettings: Migration = {
+  version: 18,
+  name: 'business-settings',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE business_settings (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        name TEXT NOT NULL,
+        address TEXT NOT NULL,
+        gstin TEXT NOT NULL,
+        stateCode TEXT NOT NULL,
+        logo TEXT,
+        bankName TEXT NOT NULL,
+        bankAccountName TEXT NOT NULL,
+        bankAccountNumber TEXT NOT NULL,
+        bankIfsc TEXT NOT NULL,
+        upiId TEXT NOT NULL,
+        dueDays INTEGER NOT NULL CHECK (dueDays >= 0),
+        currency TEXT NOT NULL,
+        locale TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        updatedBy INTEGER,
+        FOREIGN KEY (updatedBy) REFERENCES users (id)
+      );
+      ALTER TABLE invoices ADD COLUMN dueDate TEXT;
+    `);
+  },
+};
@@ -0,0 +1,13 @@
+import type BetterSqlite3 from 'better-sqlite3';
+
+// Databases created before versioned migrations may already have some of the early columns,
+// so the first migrations add them only when missing. Returns true when the column was added.
+export const addColumnIfMissing = (db: BetterSqlite3.Database, table: string, column: string, definition: string) => {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (columns.some(c => c.name === column)) return false;
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+};
+
+export const columnType = (db: BetterSqlite3.Database, table: string, column: string) =>
+  (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string; type: string }[]).find(c => c.name === column)?.type;
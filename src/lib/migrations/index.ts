@@ -0,0 +1,41 @@
+import { initialSchema } from './001-initial-schema';
+import { gstSplit } from './002-gst-split';
+import { invoiceNumbering } from './003-invoice-numbering';
+import { moneyInPaise } from './004-money-in-paise';
+import { invoiceLifecycle } from './005-invoice-lifecycle';
+import { paymentDetails } from './006-payment-details';
+import { creditNotes } from './007-credit-notes';
+import { archiving } from './008-archiving';
+import { lineItemSnapshots } from './009-line-item-snapshots';
+import { customerSearch } from './010-customer-search';
+import { stock } from './011-stock';
+import { discounts } from './012-discounts';
+import { users } from './013-users';
+import { auditLog } from './014-audit-log';
+import { quotations } from './015-quotations';
+import { recurringInvoices } from './016-recurring-invoices';
+import { invoiceEmails } from './017-invoice-emails';
+import { businessSettings } from './018-business-settings';
+
+// Every schema change gets a new file here, appended with the next version number.
+// Never edit a migration that has already shipped; add another one instead.
+export const migrations = [
+  initialSchema,
+  gstSplit,
+  invoiceNumbering,
+  moneyInPaise,
+  invoiceLifecycle,
+  paymentDetails,
+  creditNotes,
+  archiving,
+  lineItemSnapshots,
+  customerSearch,
+  stock,
+  discounts,
+  users,
+  auditLog,
+  quotations,
+  recurringInvoices,
+  invoiceEmails,
+  businessSettings,
+];
@@ -0,0 +1,80 @@
+import type { GstAmounts } from '~/lib/gst';
+
+// Money is handled as integer paise (1/100 rupee) everywhere: in the database, in calculations and in the
+// invoice draft. Rupees only appear at the edges, when parsing form input and when formatting for display.
+//
+// Rounding rules, applied per line, half away from zero to the nearest paisa:
+// - taxable value = unit price x quantity less the line's discounts (see lib/discounts.ts), which are whole paise
+// - intra-state: CGST and SGST are each taxable value x rate / 2, rounded separately, so they are always equal
+// - inter-state: IGST = taxable value x rate, rounded once
+// Invoice totals are sums of the rounded line amounts and are never rounded again.
+
+export type Paise = number;
+
+// toFixed strips binary noise such as 283.49999999999997 before rounding.
+const roundHalfUp = (value: number) => Math.sign(value) * Math.round(Math.abs(Number(value.toFixed(6))));
+
+export const toPaise = (rupees: number): Paise => roundHalfUp(rupees * 100);
+
+export const toRupees = (amount: Paise) => amount / 100;
+
+// Plain two-decimal rupee amount, e.g. 123450 -> "1234.50".
+export const formatAmount = (amount: Paise) => toRupees(amount).toFixed(2);
+
+// The currency and locale money is shown in, from the business settings. Amounts are always kept to two
+// decimals, whatever the currency's usual minor unit.
+export interface MoneyFormat { currency: string; locale: string; }
+
+export const DEFAULT_MONEY_FORMAT: MoneyFormat = { currency: 'INR', locale: 'en-IN' };
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+const numberFormat = ({ currency, locale }: MoneyFormat) => {
+  const key = `${locale}/${currency}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, { style: 'currency', currency, minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    numberFormats.set(key, format);
+  }
+  return format;
+};
+
+// e.g. 14160000 -> "₹1,41,600.00" in en-IN.
+export const formatMoney = (amount: Paise, format: MoneyFormat = DEFAULT_MONEY_FORMAT) => numberFormat(format).format(toRupees(amount));
+
+// The currency's symbol, e.g. "₹", for labelling amount inputs.
+export const currencySymbol = (format: MoneyFormat = DEFAULT_MONEY_FORMAT) =>
+  numberFormat(format).formatToParts(0).find(part => part.type === 'currency')?.value ?? format.currency;
+
+export const percentOf = (amount: Paise, rate: number): Paise => roundHalfUp(amount * rate / 100);
+
+// `part` of `whole` of an amount, e.g. the share of a line's tax for some of its quantity.
+export const proportionOf = (amount: Paise, part: number, whole: number): Paise => roundHalfUp(amount * part / whole);
+
+export interface LineAmounts extends GstAmounts { taxableAmount: Paise; totalAmount: Paise; }
+
+const withTotal = (taxableAmount: Paise, gst: GstAmounts): LineAmounts => ({
+  taxableAmount,
+  cgstAmount: gst.cgstAmount,
+  sgstAmount: gst.sgstAmount,
+  igstAmount: gst.igstAmount,
+  totalAmount: taxableAmount + gst.cgstAmount + gst.sgstAmount + gst.igstAmount,
+});
+
+export const computeLine = (unitPrice: Paise, quantity: number, rate: number, interState: boolean, discount: Paise = 0): LineAmounts => {
+  const taxableAmount = unitPrice * quantity - discount;
+  return withTotal(taxableAmount, interState
+    ? { cgstAmount: 0, sgstAmount: 0, igstAmount: percentOf(taxableAmount, rate) }
+    : { cgstAmount: percentOf(taxableAmount, rate / 2), sgstAmount: percentOf(taxableAmount, rate / 2), igstAmount: 0 });
+};
+
+// Rebuilds the amounts of a saved line from its taxable value and stored tax components.
+export const savedLine = (taxableAmount: Paise, gst: GstAmounts) => withTotal(taxableAmount, gst);
+
+export const sumLines = (lines: LineAmounts[]): LineAmounts => lines.reduce((acc, line) => ({
+  taxableAmount: acc.taxableAmount + line.taxableAmount,
+  cgstAmount: acc.cgstAmount + line.cgstAmount,
+  sgstAmount: acc.sgstAmount + line.sgstAmount,
+  igstAmount: acc.igstAmount + line.igstAmount,
+  totalAmount: acc.totalAmount + line.totalAmount,
+}), { taxableAmount: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0, totalAmount: 0 });
@@ -0,0 +1,30 @@
+import type BetterSqlite3 from 'better-sqlite3';
+
+// Document number series such as INV/2026-27/0001. Counters live in `document_sequences`, one row per
+// series and financial year, so numbering restarts every April and each series is independent.
+
+// Indian financial years run from April to March, e.g. 19 Oct 2026 falls in 2026-27. Read in UTC, like the stored
+// timestamps the reports filter on, so a document's number and its reported date fall in the same year.
+export const financialYearOf = (date: Date) => {
+  const startYear = date.getUTCMonth() >= 3 ? date.getUTCFullYear() : date.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+export const formatDocumentNumber = (prefix: string, financialYear: string, counter: number, padding: number) =>
+  `${prefix}/${financialYear}/${String(counter).padStart(padding, '0')}`;
+
+export interface NumberingOptions { series: string; prefix: string; padding: number; }
+
+// Claims the next number of a series. Must run inside the transaction that stores the document,
+// so a failed save rolls the counter back and the series stays gap-free.
+export const nextDocumentNumber = (db: BetterSqlite3.Database, options: NumberingOptions, date: Date) => {
+  const financialYear = financialYearOf(date);
+  db.prepare('INSERT INTO document_sequences (series, financialYear, lastNumber) VALUES (?, ?, 0) ON CONFLICT DO NOTHING')
+    .run(options.series, financialYear);
+  const { lastNumber } = db.prepare(`
+    UPDATE document_sequences SET lastNumber = lastNumber + 1
+    WHERE series = ? AND financialYear = ?
+    RETURNING lastNumber
+  `).get(options.series, financialYear) as { lastNumber: number };
+  return formatDocumentNumber(options.prefix, financialYear, lastNumber, options.padding);
+};
@@ -0,0 +1,32 @@
+import type { Role, User } from '~/lib/types';
+
+// What each role may do. Checked by every action on the server, and used by pages to hide what a user can't do.
+
+export const ROLES: Role[] = ['admin', 'cashier', 'viewer'];
+
+export const ROLE_LABELS: Record<Role, string> = { admin: 'Admin', cashier: 'Cashier', viewer: 'Viewer' };
+
+// Viewers can look at everything but change nothing. Cashiers run the counter: customers, quotations, invoices,
+// recurring invoices, emailing invoices, payments and returns. Only admins change products, prices and stock, cancel invoices, change the business settings, manage users and read the audit log.
+const PERMISSIONS = {
+  'customers.edit': ['admin', 'cashier'],
+  'products.edit': ['admin'],
+  'stock.adjust': ['admin'],
+  'quotations.create': ['admin', 'cashier'],
+  'invoices.create': ['admin', 'cashier'],
+  'invoices.cancel': ['admin'],
+  'invoices.send': ['admin', 'cashier'],
+  'recurring.manage': ['admin', 'cashier'],
+  'payments.record': ['admin', 'cashier'],
+  'creditNotes.create': ['admin', 'cashier'],
+  'settings.manage': ['admin'],
+  'users.manage': ['admin'],
+  'audit.view': ['admin'],
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const can = (user: Pick<User, 'role'> | null | undefined, permission: Permission) =>
+  !!user && (PERMISSIONS[permission] as Role[]).includes(user.role);
+
+export const FORBIDDEN_MESSAGE = "You don't have permission to do this.";
@@ -0,0 +1,11 @@
+// Phone numbers are typed in many ways ("98765 43210", "+91-98765-43210", "098765 43210").
+// Matching compares only the digits of the national number.
+
+export const normalizePhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  const international = phone.trim().match(/^(\+|00)91/);
+  if (international) return digits.slice(international[0].length - (international[1] === '+' ? 1 : 0));
+  if (digits.length === 12 && digits.startsWith('91')) return digits.slice(2);
+  if (digits.length === 11 && digits.startsWith('0')) return digits.slice(1);
+  return digits;
+};
@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { recordAudit } from '~/lib/audit';
+import type { Actor } from '~/lib/audit';
+import db from '~/lib/db';
+import { toPaise } from '~/lib/money';
+import { setOpeningStock } from '~/lib/stock';
+import type { Product } from '~/lib/types';
+
+// The stock count itself only changes through lib/stock.ts, so every change is logged.
+export type ProductFields = Omit<Product, 'id' | 'archivedAt' | 'stock'>;
+
+// Blank number inputs are posted as ''.
+const optionalCount = z.preprocess(value => value === '' ? undefined : value, z.coerce.number().int('Enter a whole number').min(0).optional());
+
+// What the add and edit product forms post. The price is in rupees.
+export const productInputSchema = z.object({
+  name: z.string().min(1), description: z.string().optional(),
+  sku: z.string().trim().max(40).optional().or(z.literal('')),
+  hsnCode: z.string().trim().regex(/^(\d{4}|\d{6}|\d{8})$/, 'HSN/SAC codes have 4, 6 or 8 digits').optional().or(z.literal('')),
+  unit: z.string().trim().toUpperCase().min(1).max(10).default('NOS'),
+  price: z.coerce.number().min(0), tax: z.coerce.number().min(0),
+  lowStockLevel: optionalCount,
+});
+
+// A new product can start with a stock count; left blank, its stock isn't tracked.
+export const newProductInputSchema = productInputSchema.extend({ openingStock: optionalCount });
+
+export type ProductInput = z.infer<typeof productInputSchema>;
+
+export const toProductFields = (data: ProductInput): ProductFields => ({
+  name: data.name, description: data.description || null, sku: data.sku || null, hsnCode: data.hsnCode || null, unit: data.unit,
+  price: toPaise(data.price), tax: data.tax, lowStockLevel: data.lowStockLevel ?? null,
+});
+
+// Archived products are included; selection lists filter them out.
+export const listProducts = () => db.prepare('SELECT * FROM products ORDER BY name').all() as Product[];
+
+export const findProduct = (id: number) => db.prepare('SELECT * FROM products WHERE id = ?').get(id) as Product | undefined;
+
+export const findProductBySku = (sku: string) => db.prepare('SELECT * FROM products WHERE sku = ?').get(sku) as Product | undefined;
+
+// SKUs are unique among all products, archived ones included.
+export const isSkuTaken = (sku: string, exceptId?: number) =>
+  !!db.prepare('SELECT 1 FROM products WHERE sku = ? AND id != ?').get(sku, exceptId ?? 0);
+
+// Field errors for a product that can't be saved as entered.
+export const productFieldErrors = (fields: ProductFields, exceptId?: number) => {
+  const errors: Record<string, string> = {};
+  if (fields.sku && isSkuTaken(fields.sku, exceptId)) errors.sku = 'Another product already has this SKU.';
+  return errors;
+};
+
+export const createProduct = (fields: ProductFields, openingStock: number | undefined, actor: Actor) => db.transaction(() => {
+  const result = db.prepare('INSERT INTO products (name, description, sku, hsnCode, unit, price, tax, lowStockLevel) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
+    .run(fields.name, fields.description || null, fields.sku || null, fields.hsnCode || null, fields.unit, fields.price, fields.tax, fields.lowStockLevel);
+  const id = Number(result.lastInsertRowid);
+  if (openingStock !== undefined) setOpeningStock(id, openingStock);
+  recordAudit(actor, { entity: 'product', entityId: id, action: 'create', after: findProduct(id) });
+  return id;
+})();
+
+// Invoice lines keep a copy of the product as it was sold, so editing a product never changes an existing invoice.
+export const updateProduct = (id: number, fields: ProductFields, actor: Actor) => db.transaction(() => {
+  const before = findProduct(id);
+  if (!before) return false;
+  db.prepare(`
+    UPDATE products SET name = ?, description = ?, sku = ?, hsnCode = ?, unit = ?, price = ?, tax = ?, lowStockLevel = ? WHERE id = ?
+  `).run(fields.name, fields.description || null, fields.sku || null, fields.hsnCode || null, fields.unit, fields.price, fields.tax, fields.lowStockLevel, id);
+  recordAudit(actor, { entity: 'product', entityId: id, action: 'update', before, after: findProduct(id) });
+  return true;
+})();
+
+// Lines that keep a reference to the product.
+const PRODUCT_LINE_TABLES = ['invoice_items', 'quotation_items', 'recurring_invoice_items'];
+
+// A product that has been sold, quoted or put on a recurring invoice is archived rather than deleted, so the documents
+// that list it still show it.
+export const removeProduct = (id: number, actor: Actor) => db.transaction(() => {
+  const before = findProduct(id);
+  if (!before) return null;
+  const used = PRODUCT_LINE_TABLES.some(table => db.prepare(`SELECT 1 FROM ${table} WHERE productId = ? LIMIT 1`).get(id));
+  if (!used) {
+    db.prepare('DELETE FROM stock_movements WHERE productId = ?').run(id);
+    db.prepare('DELETE FROM products WHERE id = ?').run(id);
+    recordAudit(actor, { entity: 'product', entityId: id, action: 'delete', before });
+    return 'deleted' as const;
+  }
+  db.prepare('UPDATE products SET archivedAt = ? WHERE id = ?').run(new Date().toISOString(), id);
+  recordAudit(actor, { entity: 'product', entityId: id, action: 'archive', before, after: findProduct(id) });
+  return 'archived' as const;
+})();
+
+export const restoreProduct = (id: number, actor: Actor) => db.transaction(() => {
+  const before = findProduct(id);
+  if (!before) return false;
+  db.prepare('UPDATE products SET archivedAt = NULL WHERE id = ?').run(id);
+  recordAudit(actor, { entity: 'product', entityId: id, action: 'restore', before, after: findProduct(id) });
+  return true;
+})();
@@ -0,0 +1,25 @@
+import type { Quotation, QuotationStatus } from '~/lib/types';
+
+// Quotation rules shared by the server actions and the quotation screens:
+// - a saved quotation never changes; a new one is made instead
+// - an open quotation can be accepted until its validity date has passed, or rejected
+// - an open quotation that hasn't expired, or an accepted one, can be converted into one invoice, priced at the
+//   products' current prices
+
+export const QUOTATION_STATUS_LABELS: Record<QuotationStatus, string> = {
+  open: 'Open',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  converted: 'Converted',
+};
+
+type QuotationState = Pick<Quotation, 'status' | 'validUntil'>;
+
+// `today` is a YYYY-MM-DD date.
+export const isExpired = (quotation: QuotationState, today: string) => quotation.status === 'open' && quotation.validUntil < today;
+
+export const canAccept = (quotation: QuotationState, today: string) => quotation.status === 'open' && !isExpired(quotation, today);
+
+export const canReject = (quotation: QuotationState) => quotation.status === 'open';
+
+export const canConvert = (quotation: QuotationState, today: string) => canAccept(quotation, today) || quotation.status === 'accepted';
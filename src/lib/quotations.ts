@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { recordAudit } from '~/lib/audit';
+import type { Actor } from '~/lib/audit';
+import type { BusinessProfile } from '~/lib/business';
+import { DATE_PATTERN, addDays, currentDate } from '~/lib/dates';
+import db from '~/lib/db';
+import { discountSchema, priceInvoice, storedDiscount } from '~/lib/discounts';
+import type { Discount } from '~/lib/discounts';
+import { isInterState, placeOfSupplyFor } from '~/lib/gst';
+import { checkInvoiceInput, saveInvoice } from '~/lib/invoices';
+import type { RequestedLine } from '~/lib/invoices';
+import { formatMoney } from '~/lib/money';
+import type { MoneyFormat } from '~/lib/money';
+import { nextDocumentNumber } from '~/lib/numbering';
+import { QUOTATION_STATUS_LABELS, canAccept, canConvert, canReject } from '~/lib/quotation-status';
+import type { Customer, Product, Quotation, QuotationLine, QuotationStatus } from '~/lib/types';
+
+// Quotations are put together on the new invoice page and priced exactly like invoices, but never touch stock and
+// are numbered in their own series. Converting one builds an invoice from the quoted products, quantities and
+// discounts, checked and priced again against the current products: the invoice is at today's prices, and a
+// product that has been archived since stops the conversion.
+
+// Thrown when a request breaks a quotation rule, e.g. accepting a rejected quotation. The message is shown to the user.
+export class QuotationError extends Error {}
+
+export const defaultValidUntil = (business: BusinessProfile) => addDays(currentDate(), business.quotationValidDays);
+
+// What the quotation form posts besides its items, which are read like the invoice form's.
+export const quotationInputSchema = z.object({
+  customerId: z.coerce.number().int().positive(),
+  discount: discountSchema.nullish(),
+  validUntil: z.string().regex(DATE_PATTERN, 'Enter the date the quotation is valid until.')
+    .refine(date => date >= currentDate(), 'The quotation must be valid until today or later.'),
+});
+
+const QUOTATION_COLUMNS = `
+  q.*, c.name as customerName, i.invoiceNumber, (SELECT name FROM users WHERE id = q.createdBy) as createdByName
+  FROM quotations q
+  JOIN customers c ON q.customerId = c.id
+  LEFT JOIN invoices i ON q.invoiceId = i.id
+`;
+
+export const findQuotationItems = (quotationId: number) => db.prepare(`
+  SELECT id as itemId, productId, name, description, hsnCode, unit, quantity, price, tax, discountPercent, discountAmount, invoiceDiscountAmount,
+         price * quantity - discountAmount - invoiceDiscountAmount as taxableAmount, cgstAmount, sgstAmount, igstAmount
+  FROM quotation_items
+  WHERE quotationId = ?
+  ORDER BY id
+`).all(quotationId) as QuotationLine[];
+
+export const findQuotation = (id: number) => {
+  const quotation = db.prepare(`SELECT ${QUOTATION_COLUMNS} WHERE q.id = ?`).get(id) as Omit<Quotation, 'items'> | undefined;
+  return quotation ? { ...quotation, items: findQuotationItems(id) } as Quotation : null;
+};
+
+// Newest first, without their lines.
+export const listQuotations = (status?: QuotationStatus) => db.prepare(`
+  SELECT ${QUOTATION_COLUMNS} WHERE (@status IS NULL OR q.status = @status) ORDER BY q.createdAt DESC, q.id DESC
+`).all({ status: status ?? null }) as Omit<Quotation, 'items'>[];
+
+// The quotation an invoice was converted from, if any.
+export const findInvoiceQuotation = (invoiceId: number) =>
+  db.prepare(`SELECT ${QUOTATION_COLUMNS} WHERE q.invoiceId = ?`).get(invoiceId) as Omit<Quotation, 'items'> | undefined;
+
+const requireQuotation = (id: number) => {
+  const quotation = findQuotation(id);
+  if (!quotation) throw new QuotationError('Quotation not found.');
+  return quotation;
+};
+
+export interface SaveQuotationInput { customer: Customer; lines: RequestedLine[]; discount?: Discount | null; validUntil: string; }
+
+// Saves and numbers a quotation, priced from the products table like an invoice.
+export const createQuotation = (input: SaveQuotationInput, business: BusinessProfile, actor: Actor) => db.transaction(() => {
+  const placeOfSupply = placeOfSupplyFor(input.customer, business.stateCode);
+  const interState = isInterState(business.stateCode, placeOfSupply);
+  const priced = priceInvoice(input.lines.map(({ product, quantity, discount }) => ({ price: product.price, quantity, tax: product.tax, discount })), input.discount, interState);
+  const { totals } = priced;
+
+  const createdAt = new Date();
+  const quotationNumber = nextDocumentNumber(db, { series: 'quotation', prefix: business.quotationPrefix, padding: business.invoiceNumberPadding }, createdAt);
+  const result = db.prepare(`
+    INSERT INTO quotations (quotationNumber, customerId, createdAt, validUntil, placeOfSupply, taxableAmount, cgstAmount, sgstAmount, igstAmount, totalAmount,
+                            discountPercent, discountAmount, createdBy)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(quotationNumber, input.customer.id, createdAt.toISOString(), input.validUntil, placeOfSupply, totals.taxableAmount, totals.cgstAmount, totals.sgstAmount,
+    totals.igstAmount, totals.totalAmount, input.discount?.type === 'percent' ? input.discount.value : null, priced.invoiceDiscountAmount, actor.userId);
+  const quotationId = Number(result.lastInsertRowid);
+
+  const itemStmt = db.prepare(`
+    INSERT INTO quotation_items (quotationId, productId, quantity, price, tax, name, description, hsnCode, unit,
+                                 discountPercent, discountAmount, invoiceDiscountAmount, cgstAmount, sgstAmount, igstAmount)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  input.lines.forEach(({ product, quantity, discount }, index) => {
+    const { discountAmount, invoiceDiscountAmount, cgstAmount, sgstAmount, igstAmount } = priced.lines[index];
+    itemStmt.run(quotationId, product.id, quantity, product.price, product.tax, product.name, product.description, product.hsnCode, product.unit,
+      discount?.type === 'percent' ? discount.value : null, discountAmount, invoiceDiscountAmount, cgstAmount, sgstAmount, igstAmount);
+  });
+
+  recordAudit(actor, { entity: 'quotation', entityId: quotationId, action: 'create', after: findQuotation(quotationId) });
+  return { id: quotationId, quotationNumber };
+})();
+
+// Records the customer's answer to an open quotation.
+export const respondToQuotation = (id: number, response: 'accepted' | 'rejected', actor: Actor) => db.transaction(() => {
+  const quotation = requireQuotation(id);
+  const label = `Quotation ${quotation.quotationNumber}`;
+  if (response === 'accepted' && !canAccept(quotation, currentDate())) {
+    throw new QuotationError(quotation.status === 'open' ? `${label} expired on ${quotation.validUntil}.` : `${label} is already ${QUOTATION_STATUS_LABELS[quotation.status].toLowerCase()}.`);
+  }
+  if (response === 'rejected' && !canReject(quotation)) throw new QuotationError(`${label} is already ${QUOTATION_STATUS_LABELS[quotation.status].toLowerCase()}.`);
+  db.prepare('UPDATE quotations SET status = ?, respondedAt = ? WHERE id = ?').run(response, new Date().toISOString(), id);
+  recordAudit(actor, { entity: 'quotation', entityId: id, action: response === 'accepted' ? 'accept' : 'reject', before: quotation, after: findQuotation(id) });
+})();
+
+// How each quoted line differs from its product today, for the lines that do.
+export const quotationPriceChanges = (quotation: Pick<Quotation, 'items'>, format: MoneyFormat) => {
+  const productStmt = db.prepare('SELECT * FROM products WHERE id = ?');
+  return quotation.items.flatMap(item => {
+    const product = productStmt.get(item.productId) as Product | undefined;
+    const changes: string[] = [];
+    if (!product || product.archivedAt) changes.push('no longer sold');
+    else {
+      if (product.price !== item.price) changes.push(`price ${formatMoney(item.price, format)} → ${formatMoney(product.price, format)}`);
+      if (product.tax !== item.tax) changes.push(`GST ${item.tax}% → ${product.tax}%`);
+    }
+    return changes.length ? [{ itemId: item.itemId, name: item.name, changes }] : [];
+  });
+};
+
+// Creates the invoice for an open quotation that hasn't expired, or an accepted one, as a draft or issued straight away, and marks the
+// quotation converted. Runs in one transaction with the invoice's own save, so a refused invoice (e.g. for lack
+// of stock) leaves the quotation as it was.
+export const convertQuotation = (id: number, issue: boolean, business: BusinessProfile, actor: Actor) => db.transaction(() => {
+  const quotation = requireQuotation(id);
+  const label = `Quotation ${quotation.quotationNumber}`;
+  if (!canConvert(quotation, currentDate())) {
+    if (quotation.status === 'open') throw new QuotationError(`${label} expired on ${quotation.validUntil}.`);
+    throw new QuotationError(quotation.status === 'converted' ? `${label} has already been converted into an invoice.` : `${label} was rejected and can't be converted.`);
+  }
+
+  const discount = storedDiscount(quotation.discountPercent, quotation.discountAmount);
+  const items = quotation.items.map(item => ({ productId: item.productId, quantity: item.quantity, discount: storedDiscount(item.discountPercent, item.discountAmount) }));
+  const checked = checkInvoiceInput(quotation.customerId, items, discount);
+  if ('errors' in checked) throw new QuotationError(`${label} can't be converted: ${Object.values(checked.errors).join(' ')}`);
+
+  const saved = saveInvoice({ customer: checked.customer, lines: checked.lines, discount, issue }, business, actor);
+  db.prepare("UPDATE quotations SET status = 'converted', invoiceId = ?, respondedAt = COALESCE(respondedAt, ?) WHERE id = ?")
+    .run(saved.id, new Date().toISOString(), id);
+  recordAudit(actor, { entity: 'quotation', entityId: id, action: 'convert', before: quotation, after: findQuotation(id) });
+  return saved;
+})();
@@ -0,0 +1,41 @@
+import { addDays, addMonths } from '~/lib/dates';
+import type { RecurringFrequency, RecurringInvoice } from '~/lib/types';
+
+// When recurring invoices fall due, shared by the generator and the recurring invoice screens. Every run date is
+// counted from the start date, so a schedule starting on the 31st bills on the last day of shorter months and
+// goes back to the 31st after them. A run date is also the period it bills, which is never invoiced twice.
+
+export const RECURRING_FREQUENCIES = ['weekly', 'monthly', 'quarterly', 'yearly'] as const satisfies readonly RecurringFrequency[];
+
+export const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+};
+
+export type RecurringStatus = 'active' | 'paused' | 'ended';
+
+export const RECURRING_STATUS_LABELS: Record<RecurringStatus, string> = { active: 'Active', paused: 'Paused', ended: 'Ended' };
+
+// A template has ended once its schedule has no run dates left.
+export const recurringStatus = (template: Pick<RecurringInvoice, 'nextRunDate' | 'pausedAt'>): RecurringStatus =>
+  template.nextRunDate === null ? 'ended' : template.pausedAt ? 'paused' : 'active';
+
+const MONTHS: Record<Exclude<RecurringFrequency, 'weekly'>, number> = { monthly: 1, quarterly: 3, yearly: 12 };
+
+const runDate = (startDate: string, frequency: RecurringFrequency, run: number) =>
+  frequency === 'weekly' ? addDays(startDate, 7 * run) : addMonths(startDate, MONTHS[frequency] * run);
+
+type Schedule = Pick<RecurringInvoice, 'startDate' | 'endDate' | 'frequency'>;
+
+// The first run date after `date`, or null if the schedule ends before it.
+export const nextRunAfter = ({ startDate, endDate, frequency }: Schedule, date: string) => {
+  let run = 0;
+  while (runDate(startDate, frequency, run) <= date) run++;
+  const next = runDate(startDate, frequency, run);
+  return endDate && next > endDate ? null : next;
+};
+
+export const isDue = (template: Pick<RecurringInvoice, 'nextRunDate' | 'pausedAt'>, today: string) =>
+  !template.pausedAt && template.nextRunDate !== null && template.nextRunDate <= today;
@@ -0,0 +1,188 @@
+import { z } from 'zod';
+import type { EnvGetter } from '@builder.io/qwik-city/middleware/request-handler';
+import { SYSTEM_ACTOR, recordAudit } from '~/lib/audit';
+import type { Actor } from '~/lib/audit';
+import { getBusinessProfile } from '~/lib/business';
+import type { BusinessProfile } from '~/lib/business';
+import { DATE_PATTERN, addDays, currentDate } from '~/lib/dates';
+import db from '~/lib/db';
+import { discountSchema, storedDiscount } from '~/lib/discounts';
+import type { Discount } from '~/lib/discounts';
+import { InvoiceError, checkInvoiceInput, saveInvoice } from '~/lib/invoices';
+import type { RequestedLine } from '~/lib/invoices';
+import { RECURRING_FREQUENCIES, isDue, nextRunAfter } from '~/lib/recurring-schedule';
+import type { Customer, RecurringFrequency, RecurringInvoice, RecurringInvoiceItem, RecurringRun } from '~/lib/types';
+
+// Recurring invoices are templates put together on the new invoice page: a customer, products, quantities and
+// discounts, and a schedule. When a run date comes round, the template's invoice is generated through the same
+// checks and save as one made by hand, at the products' prices of the day, and recorded against the run date.
+// That record, the invoice and the template's next run date are written in one transaction, and a run date can
+// only be recorded once, so generating again - after a restart, or from the command line while the server runs -
+// never invoices a period twice. Periods missed while nothing ran are caught up one invoice each.
+
+// Thrown when a request breaks a recurring invoice rule, e.g. pausing a paused template. The message is shown to the user.
+export class RecurringInvoiceError extends Error {}
+
+const optionalDate = z.union([z.literal(''), z.string().regex(DATE_PATTERN, 'Enter a valid date.')]).optional().transform(date => date || null);
+
+// What the recurring invoice form posts besides its items, which are read like the invoice form's.
+export const recurringInputSchema = z.object({
+  customerId: z.coerce.number().int().positive(),
+  discount: discountSchema.nullish(),
+  frequency: z.enum(RECURRING_FREQUENCIES),
+  startDate: z.string().regex(DATE_PATTERN, 'Enter the date of the first invoice.')
+    .refine(date => date >= currentDate(), 'The first invoice can be today at the earliest.'),
+  endDate: optionalDate,
+  mode: z.enum(['issue', 'draft']).default('issue'),
+});
+
+export const checkRecurringDates = (input: { startDate: string; endDate: string | null }, ctx: z.RefinementCtx) => {
+  if (input.endDate && input.endDate < input.startDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endDate'], message: 'The schedule must end on or after the first invoice.' });
+  }
+};
+
+type RecurringInvoiceRow = Omit<RecurringInvoice, 'issue' | 'items'> & { issue: number };
+
+const RECURRING_COLUMNS = `r.*, c.name as customerName FROM recurring_invoices r JOIN customers c ON r.customerId = c.id`;
+
+const toRecurringInvoice = (row: RecurringInvoiceRow, items: RecurringInvoiceItem[]): RecurringInvoice => ({ ...row, issue: row.issue === 1, items });
+
+// Lines come with their products as they are now.
+export const findRecurringItems = (recurringInvoiceId: number) => db.prepare(`
+  SELECT ri.id, ri.productId, p.name, p.price, p.tax, p.unit, p.archivedAt, ri.quantity, ri.discountPercent, ri.discountAmount
+  FROM recurring_invoice_items ri
+  JOIN products p ON ri.productId = p.id
+  WHERE ri.recurringInvoiceId = ?
+  ORDER BY ri.id
+`).all(recurringInvoiceId) as RecurringInvoiceItem[];
+
+export const findRecurringInvoice = (id: number) => {
+  const row = db.prepare(`SELECT ${RECURRING_COLUMNS} WHERE r.id = ?`).get(id) as RecurringInvoiceRow | undefined;
+  return row ? toRecurringInvoice(row, findRecurringItems(id)) : null;
+};
+
+// Active templates first, soonest due first, without their lines.
+export const listRecurringInvoices = () => (db.prepare(`
+  SELECT ${RECURRING_COLUMNS}
+  ORDER BY r.pausedAt IS NOT NULL, r.nextRunDate IS NULL, r.nextRunDate, r.id
+`).all() as RecurringInvoiceRow[]).map(row => toRecurringInvoice(row, []));
+
+// The invoices generated from a template, latest period first.
+export const recurringRuns = (recurringInvoiceId: number) => db.prepare(`
+  SELECT rr.period, rr.invoiceId, i.invoiceNumber, i.totalAmount, rr.createdAt
+  FROM recurring_invoice_runs rr
+  JOIN invoices i ON rr.invoiceId = i.id
+  WHERE rr.recurringInvoiceId = ?
+  ORDER BY rr.period DESC
+`).all(recurringInvoiceId) as RecurringRun[];
+
+// The template and period an invoice was generated for, if any.
+export const findInvoiceRecurringRun = (invoiceId: number) =>
+  db.prepare('SELECT recurringInvoiceId, period FROM recurring_invoice_runs WHERE invoiceId = ?').get(invoiceId) as { recurringInvoiceId: number; period: string } | undefined;
+
+const requireRecurringInvoice = (id: number) => {
+  const template = findRecurringInvoice(id);
+  if (!template) throw new RecurringInvoiceError('Recurring invoice not found.');
+  return template;
+};
+
+export interface SaveRecurringInput {
+  customer: Customer; lines: RequestedLine[]; discount?: Discount | null; frequency: RecurringFrequency; startDate: string; endDate: string | null; issue: boolean;
+}
+
+// Discounts are kept as entered, as a percentage or an amount, since the prices they apply to are not known yet.
+export const createRecurringInvoice = (input: SaveRecurringInput, actor: Actor) => db.transaction(() => {
+  const percent = (discount?: Discount | null) => discount?.type === 'percent' ? discount.value : null;
+  const amount = (discount?: Discount | null) => discount?.type === 'amount' ? discount.value : 0;
+  const result = db.prepare(`
+    INSERT INTO recurring_invoices (customerId, frequency, startDate, endDate, nextRunDate, issue, discountPercent, discountAmount, createdAt, createdBy)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(input.customer.id, input.frequency, input.startDate, input.endDate, input.startDate, input.issue ? 1 : 0,
+    percent(input.discount), amount(input.discount), new Date().toISOString(), actor.userId);
+  const id = Number(result.lastInsertRowid);
+
+  const itemStmt = db.prepare('INSERT INTO recurring_invoice_items (recurringInvoiceId, productId, quantity, discountPercent, discountAmount) VALUES (?, ?, ?, ?, ?)');
+  for (const { product, quantity, discount } of input.lines) itemStmt.run(id, product.id, quantity, percent(discount), amount(discount));
+
+  recordAudit(actor, { entity: 'recurring_invoice', entityId: id, action: 'create', after: findRecurringInvoice(id) });
+  return { id };
+})();
+
+// A paused template generates nothing. Resuming skips the run dates that passed while it was paused, so the
+// next invoice is the first one due from today.
+export const setRecurringPaused = (id: number, paused: boolean, actor: Actor) => db.transaction(() => {
+  const template = requireRecurringInvoice(id);
+  if (paused === !!template.pausedAt) throw new RecurringInvoiceError(`Recurring invoice #${id} is already ${paused ? 'paused' : 'running'}.`);
+  const today = currentDate();
+  const nextRunDate = paused || !template.nextRunDate || template.nextRunDate >= today ? template.nextRunDate : nextRunAfter(template, addDays(today, -1));
+  db.prepare('UPDATE recurring_invoices SET pausedAt = ?, nextRunDate = ? WHERE id = ?').run(paused ? new Date().toISOString() : null, nextRunDate, id);
+  recordAudit(actor, { entity: 'recurring_invoice', entityId: id, action: paused ? 'pause' : 'resume', before: template, after: findRecurringInvoice(id) });
+})();
+
+export interface GeneratedInvoice { recurringInvoiceId: number; period: string; id: number; invoiceNumber: string | null; }
+
+// Generates the invoice for a template's next run date, if it is due by `today`, and moves the template on to the
+// run date after it. The transaction takes the database's write lock before reading the template, so a second
+// generator waits and then finds the period done. Were a period recorded anyway, the run table's key would refuse
+// it and roll the invoice back.
+const generateNext = (id: number, today: string, business: BusinessProfile) => db.transaction((): GeneratedInvoice | null => {
+  const template = findRecurringInvoice(id);
+  if (!template || !isDue(template, today)) return null;
+  const period = template.nextRunDate as string;
+
+  const discount = storedDiscount(template.discountPercent, template.discountAmount);
+  const items = template.items.map(item => ({ productId: item.productId, quantity: item.quantity, discount: storedDiscount(item.discountPercent, item.discountAmount) }));
+  const checked = checkInvoiceInput(template.customerId, items, discount);
+  if ('errors' in checked) throw new RecurringInvoiceError(Object.values(checked.errors).join(' '));
+
+  const saved = saveInvoice({ customer: checked.customer, lines: checked.lines, discount, issue: template.issue }, business, SYSTEM_ACTOR);
+  db.prepare('INSERT INTO recurring_invoice_runs (recurringInvoiceId, period, invoiceId, createdAt) VALUES (?, ?, ?, ?)').run(id, period, saved.id, new Date().toISOString());
+  db.prepare('UPDATE recurring_invoices SET nextRunDate = ?, lastError = NULL WHERE id = ?').run(nextRunAfter(template, period), id);
+  recordAudit(SYSTEM_ACTOR, { entity: 'recurring_invoice', entityId: id, action: 'generate', before: template, after: findRecurringInvoice(id) });
+  return { recurringInvoiceId: id, period, id: saved.id, invoiceNumber: saved.invoiceNumber };
+}).immediate();
+
+export interface GenerationResult { created: GeneratedInvoice[]; failed: { recurringInvoiceId: number; error: string }[]; }
+
+// Generates every invoice due by `today`. A template whose invoice can't be made (an archived product, or too
+// little stock when short sales are blocked) keeps its run date and the reason, and is tried again next time;
+// the other templates go ahead.
+export const generateDueInvoices = (business: BusinessProfile, today = currentDate()): GenerationResult => {
+  const result: GenerationResult = { created: [], failed: [] };
+  const due = db.prepare('SELECT id FROM recurring_invoices WHERE pausedAt IS NULL AND nextRunDate <= ? ORDER BY nextRunDate, id').all(today) as { id: number }[];
+  for (const { id } of due) {
+    try {
+      for (let generated = generateNext(id, today, business); generated; generated = generateNext(id, today, business)) result.created.push(generated);
+    } catch (error) {
+      const known = error instanceof RecurringInvoiceError || error instanceof InvoiceError;
+      if (!known) console.error(`Generating recurring invoice #${id} failed:`, error);
+      const message = known ? error.message : 'Failed to generate the invoice.';
+      db.prepare('UPDATE recurring_invoices SET lastError = ? WHERE id = ?').run(message, id);
+      result.failed.push({ recurringInvoiceId: id, error: message });
+    }
+  }
+  return result;
+};
+
+const SCHEDULER_INTERVAL = 60 * 60 * 1000;
+
+let schedulerStarted = false;
+
+// Generates due invoices once the server is up and every hour after that. Started by the first request; the
+// timers don't keep the process alive on their own. The business profile is read on every run, so a change on the
+// settings page applies to the next invoices generated.
+export const startRecurringScheduler = (env: EnvGetter) => {
+  if (schedulerStarted) return;
+  schedulerStarted = true;
+  const run = () => {
+    try {
+      const { created, failed } = generateDueInvoices(getBusinessProfile(env));
+      if (created.length || failed.length) console.log(`Recurring invoices: ${created.length} generated, ${failed.length} failed.`);
+    } catch (error) {
+      console.error('Generating recurring invoices failed:', error);
+    }
+  };
+  setTimeout(run, 0).unref();
+  setInterval(run, SCHEDULER_INTERVAL).unref();
+};
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import { DATE_PATTERN, currentDate } from '~/lib/dates';
+import db from '~/lib/db';
+import type { GstAmounts } from '~/lib/gst';
+import type { Paise } from '~/lib/money';
+
+// Sales and GST reports for a period, added up in SQL from the invoices and their lines. Sales are the invoices
+// issued in the period, by their issue date: drafts are not sales yet and cancelled invoices are void. Credit
+// notes are reported apart, by the date they were made, and are not taken off the sales.
+
+export const REPORT_GROUPINGS = ['day', 'month'] as const;
+
+export type ReportGrouping = typeof REPORT_GROUPINGS[number];
+
+const optionalDate = z.string().regex(DATE_PATTERN).optional().catch(undefined);
+
+// Driven by URL query params like the invoice history; anything malformed is ignored.
+export const reportQuerySchema = z.object({ from: optionalDate, to: optionalDate, groupBy: z.enum(REPORT_GROUPINGS).catch('day') });
+
+export interface ReportQuery { from: string; to: string; groupBy: ReportGrouping; }
+
+// The period defaults to the month so far.
+export const parseReportQuery = (params: URLSearchParams): ReportQuery => {
+  const { from, to, groupBy } = reportQuerySchema.parse(Object.fromEntries([...params].filter(([, value]) => value !== '')));
+  const today = currentDate();
+  return { from: from ?? `${today.slice(0, 8)}01`, to: to ?? today, groupBy };
+};
+
+export interface SalesAmounts extends GstAmounts { taxableAmount: Paise; totalAmount: Paise; }
+
+export interface SalesSummary extends SalesAmounts { invoices: number; }
+
+export interface SalesByPeriod extends SalesSummary { period: string; }
+
+export interface SalesByCustomer extends SalesSummary { customerId: number; customerName: string; customerGstin: string | null; }
+
+export interface SalesByProduct extends SalesAmounts { productId: number; name: string; unit: string; quantity: number; }
+
+export interface TaxByRate extends SalesAmounts { rate: number; }
+
+export interface CreditNoteSummary extends SalesAmounts { creditNotes: number; }
+
+export interface SalesReport {
+  query: ReportQuery; summary: SalesSummary; byPeriod: SalesByPeriod[]; byCustomer: SalesByCustomer[]; byProduct: SalesByProduct[];
+  byRate: TaxByRate[]; creditNotes: CreditNoteSummary;
+}
+
+// Invoices `i` counted as sales in the period from `@from` to `@to`, both included.
+export const SALES_IN_PERIOD = `i.status IN ('issued', 'partially_paid', 'paid') AND date(i.issuedAt) BETWEEN @from AND @to`;
+
+const INVOICE_SUMS = `
+  COUNT(*) as invoices, COALESCE(SUM(i.taxableAmount), 0) as taxableAmount, COALESCE(SUM(i.cgstAmount), 0) as cgstAmount,
+  COALESCE(SUM(i.sgstAmount), 0) as sgstAmount, COALESCE(SUM(i.igstAmount), 0) as igstAmount, COALESCE(SUM(i.totalAmount), 0) as totalAmount
+`;
+
+// Line amounts; a line's total is its taxable value plus its GST.
+export const LINE_TAXABLE = 'ii.priceAtSale * ii.quantity - ii.discountAmount - ii.invoiceDiscountAmount';
+
+const LINE_SUMS = `
+  SUM(${LINE_TAXABLE}) as taxableAmount, SUM(ii.cgstAmount) as cgstAmount, SUM(ii.sgstAmount) as sgstAmount, SUM(ii.igstAmount) as igstAmount,
+  SUM(${LINE_TAXABLE} + ii.cgstAmount + ii.sgstAmount + ii.igstAmount) as totalAmount
+`;
+
+export const salesReport = (query: ReportQuery): SalesReport => {
+  const range = { from: query.from, to: query.to };
+  // issuedAt is an ISO timestamp: its first 10 characters are the day, the first 7 the month.
+  const periodLength = query.groupBy === 'day' ? 10 : 7;
+  return {
+    query,
+    summary: db.prepare(`SELECT ${INVOICE_SUMS} FROM invoices i WHERE ${SALES_IN_PERIOD}`).get(range) as SalesSummary,
+    byPeriod: db.prepare(`
+      SELECT substr(i.issuedAt, 1, ${periodLength}) as period, ${INVOICE_SUMS}
+      FROM invoices i
+      WHERE ${SALES_IN_PERIOD}
+      GROUP BY period
+      ORDER BY period
+    `).all(range) as SalesByPeriod[],
+    byCustomer: db.prepare(`
+      SELECT c.id as customerId, c.name as customerName, c.gstin as customerGstin, ${INVOICE_SUMS}
+      FROM invoices i JOIN customers c ON i.customerId = c.id
+      WHERE ${SALES_IN_PERIOD}
+      GROUP BY c.id
+      ORDER BY totalAmount DESC, c.name
+    `).all(range) as SalesByCustomer[],
+    // From the lines as sold: quantities are only added up within one unit, and each row is labelled with the name
+    // of its latest sale in the period, so renaming a product or changing its unit doesn't rewrite past sales.
+    byProduct: db.prepare(`
+      SELECT s.productId, latest.nameAtSale as name, s.unit, s.quantity, s.taxableAmount, s.cgstAmount, s.sgstAmount, s.igstAmount, s.totalAmount
+      FROM (
+        SELECT ii.productId, ii.unitAtSale as unit, MAX(ii.id) as latestItemId, SUM(ii.quantity) as quantity, ${LINE_SUMS}
+        FROM invoice_items ii JOIN invoices i ON ii.invoiceId = i.id
+        WHERE ${SALES_IN_PERIOD}
+        GROUP BY ii.productId, ii.unitAtSale
+      ) s JOIN invoice_items latest ON latest.id = s.latestItemId
+      ORDER BY s.totalAmount DESC, name
+    `).all(range) as SalesByProduct[],
+    byRate: db.prepare(`
+      SELECT ii.taxAtSale as rate, ${LINE_SUMS}
+      FROM invoice_items ii JOIN invoices i ON ii.invoiceId = i.id
+      WHERE ${SALES_IN_PERIOD}
+      GROUP BY ii.taxAtSale
+      ORDER BY ii.taxAtSale
+    `).all(range) as TaxByRate[],
+    creditNotes: db.prepare(`
+      SELECT COUNT(*) as creditNotes, COALESCE(SUM(taxableAmount), 0) as taxableAmount, COALESCE(SUM(cgstAmount), 0) as cgstAmount,
+             COALESCE(SUM(sgstAmount), 0) as sgstAmount, COALESCE(SUM(igstAmount), 0) as igstAmount, COALESCE(SUM(totalAmount), 0) as totalAmount
+      FROM credit_notes
+      WHERE date(createdAt) BETWEEN @from AND @to
+    `).get(range) as CreditNoteSummary,
+  };
+};
@@ -0,0 +1,76 @@
+import { recordAudit } from '~/lib/audit';
+import type { Actor } from '~/lib/audit';
+import db from '~/lib/db';
+import type { Product, StockMovementReason } from '~/lib/types';
+
+// Stock counts. Goods leave stock when an invoice is issued (drafts don't reserve anything) and come back
+// when an issued invoice is cancelled. Returns and counting corrections are entered as adjustments; credit
+// notes don't restock by themselves, as returned goods aren't always fit to sell again.
+// Products with a NULL `stock` aren't tracked and are never checked.
+
+// What issuing an invoice does when it sells more than is in stock: refuse, go ahead with a warning, or just go ahead.
+export type InsufficientStockPolicy = 'block' | 'warn' | 'allow';
+
+// Thrown when an adjustment would leave a count below zero. The message is shown to the user.
+export class StockError extends Error {}
+
+export interface StockShortage { productId: number; name: string; unit: string; available: number; requested: number; }
+
+export const describeShortage = (shortage: StockShortage) =>
+  `${shortage.name} (${shortage.available} ${shortage.unit} in stock, ${shortage.requested} needed)`;
+
+// Changes a product's count and logs why. Counting starts from zero for a product that wasn't tracked yet.
+const recordMovement = (productId: number, quantity: number, reason: StockMovementReason, details: { invoiceId?: number; note?: string } = {}) => {
+  const { stock } = db.prepare('UPDATE products SET stock = COALESCE(stock, 0) + ? WHERE id = ? RETURNING stock').get(quantity, productId) as { stock: number };
+  db.prepare('INSERT INTO stock_movements (productId, quantity, reason, invoiceId, note, stockAfter, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)')
+    .run(productId, quantity, reason, details.invoiceId ?? null, details.note || null, stock, new Date().toISOString());
+  return stock;
+};
+
+// Starts tracking a new product's stock.
+export const setOpeningStock = (productId: number, quantity: number) => {
+  if (quantity === 0) db.prepare('UPDATE products SET stock = 0 WHERE id = ?').run(productId);
+  else recordMovement(productId, quantity, 'opening');
+};
+
+// Takes the goods on an invoice out of stock and returns the lines there wasn't enough of.
+// Runs inside the transaction that issues the invoice, so a refused invoice leaves the counts untouched.
+export const takeStockForInvoice = (invoiceId: number) => {
+  const lines = db.prepare(`
+    SELECT p.id as productId, p.name, p.unit, p.stock as available, SUM(ii.quantity) as requested
+    FROM invoice_items ii JOIN products p ON ii.productId = p.id
+    WHERE ii.invoiceId = ? AND p.stock IS NOT NULL
+    GROUP BY p.id
+  `).all(invoiceId) as StockShortage[];
+  for (const line of lines) recordMovement(line.productId, -line.requested, 'sale', { invoiceId });
+  return lines.filter(line => line.requested > line.available);
+};
+
+// Puts back exactly what was taken for an invoice, e.g. when it is cancelled.
+export const returnStockForInvoice = (invoiceId: number) => {
+  const taken = db.prepare(`
+    SELECT productId, -SUM(quantity) as quantity FROM stock_movements WHERE invoiceId = ? GROUP BY productId HAVING SUM(quantity) != 0
+  `).all(invoiceId) as { productId: number; quantity: number }[];
+  for (const { productId, quantity } of taken) recordMovement(productId, quantity, 'cancellation', { invoiceId });
+};
+
+export interface StockAdjustment { quantity: number; reason: 'return' | 'correction'; note?: string; }
+
+// Adds (or with a negative quantity, removes) stock by hand. Returns the new count, or null when there is no such product.
+export const adjustStock = (productId: number, { quantity, reason, note }: StockAdjustment, actor: Actor) => db.transaction(() => {
+  const product = db.prepare('SELECT stock FROM products WHERE id = ?').get(productId) as Pick<Product, 'stock'> | undefined;
+  if (!product) return null;
+  const current = product.stock ?? 0;
+  if (quantity < 0 && current + quantity < 0) throw new StockError(`Only ${current} in stock, so ${-quantity} can't be removed.`);
+  const stock = recordMovement(productId, quantity, reason, { note });
+  recordAudit(actor, { entity: 'product', entityId: productId, action: 'adjust_stock', before: { stock: product.stock }, after: { stock, quantity, reason, note: note || null } });
+  return stock;
+})();
+
+// Tracked products at or below their low-stock level (or out of stock when no level is set), emptiest first.
+export const lowStockProducts = () => db.prepare(`
+  SELECT * FROM products
+  WHERE archivedAt IS NULL AND stock IS NOT NULL AND stock <= COALESCE(lowStockLevel, 0)
+  ORDER BY stock - COALESCE(lowStockLevel, 0), name
+`).all() as Product[];
+
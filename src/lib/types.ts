@@ -0,0 +1,74 @@
+import type { Discount } from '~/lib/discounts';
+import type { GstAmounts } from '~/lib/gst';
+
+// --- TYPE DEFINITIONS ---
+// All money fields (price, *Amount) are integer paise, see lib/money.ts. `tax` is a GST rate in percent.
+// `archivedAt` is set on customers and products that are no longer offered but still appear on invoices.
+export interface Customer { id: number; name: string; phone: string; email: string | null; address: string | null; state: string | null; gstin: string | null; archivedAt: string | null; }
+// `unit` is a GST unit quantity code such as NOS or KGS. `stock` is null when stock isn't tracked for the product.
+export interface Product {
+  id: number; name: string; description: string | null; sku: string | null; hsnCode: string | null; unit: string; price: number; tax: number;
+  stock: number | null; lowStockLevel: number | null; archivedAt: string | null;
+}
+export interface InvoiceItem extends Product { quantity: number; discount?: Discount | null; }
+// `itemId` is the invoice_items row; `creditedQuantity` has already been returned on credit notes.
+// `discountAmount` is the line's own discount and `invoiceDiscountAmount` its share of the invoice discount.
+export interface InvoiceLine extends InvoiceItem, GstAmounts {
+  itemId: number; creditedQuantity: number; discountPercent: number | null; discountAmount: number; invoiceDiscountAmount: number; taxableAmount: number;
+}
+export type PaymentMethod = 'cash' | 'upi' | 'card' | 'bank';
+export interface Payment { id: number; invoiceId: number; amount: number; paidAt: string; method: PaymentMethod; reference: string | null; }
+export type StockMovementReason = 'opening' | 'sale' | 'cancellation' | 'return' | 'correction';
+export type Role = 'admin' | 'cashier' | 'viewer';
+// Password hashes are never read into a User.
+export interface User { id: number; username: string; name: string; role: Role; createdAt: string; disabledAt: string | null; }
+export type AuditEntity = 'customer' | 'product' | 'invoice' | 'credit_note' | 'quotation' | 'recurring_invoice' | 'user' | 'settings';
+export type AuditSource = 'web' | 'api' | 'system';
+// `before` and `after` are JSON snapshots of the record; `before` is null for new records and `after` for deleted ones.
+export interface AuditEntry {
+  id: number; entity: AuditEntity; entityId: number; action: string; before: string | null; after: string | null;
+  userId: number | null; userName: string | null; source: AuditSource; createdAt: string;
+}
+export type InvoiceStatus = 'draft' | 'issued' | 'partially_paid' | 'paid' | 'cancelled';
+// Drafts have no invoice number yet; it is assigned when the invoice is issued.
+export interface Invoice extends GstAmounts {
+  id: number; invoiceNumber: string | null; customerId: number; createdAt: string; totalAmount: number; taxableAmount: number; placeOfSupply: string | null;
+  status: InvoiceStatus; issuedAt: string | null; dueDate: string | null; cancelledAt: string | null; cancelReason: string | null; amountPaid: number; amountCredited: number;
+  discountPercent: number | null; discountAmount: number; customerName: string; items: InvoiceLine[]; payments: Payment[];
+  createdBy: number | null; createdByName: string | null; // null for invoices from before user accounts, or created through the API
+}
+export interface CreditNoteLine extends GstAmounts { invoiceItemId: number; name: string; hsnCode: string | null; unit: string; quantity: number; price: number; tax: number; taxableAmount: number; }
+export interface CreditNote extends GstAmounts {
+  id: number; creditNoteNumber: string; invoiceId: number; invoiceNumber: string; customerId: number; customerName: string;
+  reason: string; createdAt: string; taxableAmount: number; totalAmount: number; items: CreditNoteLine[];
+}
+export type QuotationStatus = 'open' | 'accepted' | 'rejected' | 'converted';
+// Lines keep the product as it was quoted; `productId` points at the current product.
+export interface QuotationLine extends GstAmounts {
+  itemId: number; productId: number; name: string; description: string | null; hsnCode: string | null; unit: string; quantity: number; price: number; tax: number;
+  discountPercent: number | null; discountAmount: number; invoiceDiscountAmount: number; taxableAmount: number;
+}
+// `validUntil` is a date (YYYY-MM-DD). `invoiceId` is set once the quotation has been converted into an invoice.
+export interface Quotation extends GstAmounts {
+  id: number; quotationNumber: string; customerId: number; customerName: string; createdAt: string; validUntil: string; status: QuotationStatus;
+  respondedAt: string | null; placeOfSupply: string | null; taxableAmount: number; totalAmount: number; discountPercent: number | null; discountAmount: number;
+  invoiceId: number | null; invoiceNumber: string | null; createdBy: number | null; createdByName: string | null; items: QuotationLine[];
+}
+export type RecurringFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+// Dates are YYYY-MM-DD. `nextRunDate` is null once the schedule has passed its `endDate`. `issue` is false for
+// templates whose invoices are saved as drafts to be checked first. `lastError` is why the last due invoice could
+// not be generated; it is retried on every run.
+export interface RecurringInvoice {
+  id: number; customerId: number; customerName: string; frequency: RecurringFrequency; startDate: string; endDate: string | null; nextRunDate: string | null;
+  issue: boolean; discountPercent: number | null; discountAmount: number; pausedAt: string | null; lastError: string | null; createdAt: string;
+  createdBy: number | null; items: RecurringInvoiceItem[];
+}
+// The product as it is now, as invoices are priced when they are generated.
+export interface RecurringInvoiceItem { id: number; productId: number; name: string; price: number; tax: number; unit: string; archivedAt: string | null; quantity: number; discountPercent: number | null; discountAmount: number; }
+export interface RecurringRun { period: string; invoiceId: number; invoiceNumber: string | null; totalAmount: number; createdAt: string; }
+export type InvoiceEmailStatus = 'sent' | 'failed';
+// The send log of an invoice. `messageId` is the transport's id for a sent email, `error` why a failed one wasn't sent.
+export interface InvoiceEmail {
+  id: number; invoiceId: number; recipient: string; subject: string; transport: string; status: InvoiceEmailStatus; messageId: string | null;
+  error: string | null; createdAt: string; sentBy: number | null; sentByName: string | null;
+}
@@ -0,0 +1,21 @@
+import { API_ACTOR } from '~/lib/audit';
+import { apiHandler, idParam, notFound, readBody, validationError } from '~/lib/api';
+import { checkGstinState, customerFieldErrors, customerInputSchema, findCustomer, toCustomerFields, updateCustomer } from '~/lib/customers';
+
+// GET /api/v1/customers/:id
+export const onGet = apiHandler((event) => {
+  const customer = findCustomer(idParam(event));
+  if (!customer) throw notFound('Customer');
+  return customer;
+});
+
+// PUT /api/v1/customers/:id - replaces the customer's details.
+export const onPut = apiHandler(async (event) => {
+  const id = idParam(event);
+  const data = await readBody(event, customerInputSchema.superRefine(checkGstinState));
+  const fields = toCustomerFields(data);
+  const fieldErrors = customerFieldErrors(fields, id);
+  if (Object.keys(fieldErrors).length) throw validationError(fieldErrors);
+  if (!updateCustomer(id, fields, API_ACTOR)) throw notFound('Customer');
+  return findCustomer(id);
+});
@@ -0,0 +1,19 @@
+import { API_ACTOR } from '~/lib/audit';
+import { apiHandler, readBody, validationError } from '~/lib/api';
+import { checkGstinState, createCustomer, customerFieldErrors, customerInputSchema, findCustomer, listCustomers, searchCustomers, toCustomerFields } from '~/lib/customers';
+
+// GET /api/v1/customers - all customers, archived ones included. `?q=` searches like the customer autocomplete.
+export const onGet = apiHandler(({ query }) => {
+  const q = query.get('q');
+  return q ? searchCustomers(q) : listCustomers();
+});
+
+// POST /api/v1/customers - adds a customer.
+export const onPost = apiHandler(async (event) => {
+  const data = await readBody(event, customerInputSchema.superRefine(checkGstinState));
+  const fields = toCustomerFields(data);
+  const fieldErrors = customerFieldErrors(fields);
+  if (Object.keys(fieldErrors).length) throw validationError(fieldErrors);
+  event.status(201);
+  return findCustomer(createCustomer(fields, API_ACTOR));
+});
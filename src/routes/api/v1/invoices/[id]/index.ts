@@ -0,0 +1,23 @@
+import { z } from '@builder.io/qwik-city';
+import { API_ACTOR } from '~/lib/audit';
+import { apiHandler, idParam, notFound, readBody, validationError } from '~/lib/api';
+import { getBusinessProfile } from '~/lib/business';
+import { checkInvoiceInput, findInvoice, findInvoiceWithCustomer, invoiceInputSchema, saveInvoice } from '~/lib/invoices';
+
+// GET /api/v1/invoices/:id - the invoice with its lines, payments and customer.
+export const onGet = apiHandler((event) => {
+  const found = findInvoiceWithCustomer(idParam(event));
+  if (!found) throw notFound('Invoice');
+  return { ...found.invoice, customer: found.customer };
+});
+
+// PUT /api/v1/invoices/:id - rewrites a draft, and issues it unless `intent` is `draft`. Issued invoices can't be changed.
+export const onPut = apiHandler(async (event) => {
+  const id = idParam(event);
+  if (!findInvoice(id)) throw notFound('Invoice');
+  const data = await readBody(event, invoiceInputSchema.extend({ items: z.unknown() }));
+  const checked = checkInvoiceInput(data.customerId, data.items, data.discount);
+  if ('errors' in checked) throw validationError(checked.errors);
+  const saved = saveInvoice({ customer: checked.customer, lines: checked.lines, discount: data.discount, draftId: id, issue: data.intent === 'issue' }, getBusinessProfile(event.env), API_ACTOR);
+  return { ...findInvoice(id), stockWarnings: saved.stockWarnings };
+});
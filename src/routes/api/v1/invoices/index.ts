@@ -0,0 +1,24 @@
+import { z } from '@builder.io/qwik-city';
+import { API_ACTOR } from '~/lib/audit';
+import { apiHandler, readBody, validationError } from '~/lib/api';
+import { getBusinessProfile } from '~/lib/business';
+import { parseHistoryQuery, searchHistory } from '~/lib/history';
+import { checkInvoiceInput, findInvoice, invoiceInputSchema, saveInvoice } from '~/lib/invoices';
+
+// GET /api/v1/invoices - one page of invoice summaries. Takes the invoice history filters (`q`, `status`, `from`,
+// `to`, `min`, `max`, `sort`, `order`, `page`).
+export const onGet = apiHandler(({ url }) => {
+  const query = { ...parseHistoryQuery(url.searchParams), kind: 'invoice' as const };
+  return searchHistory(query);
+});
+
+// POST /api/v1/invoices - saves a draft, or issues the invoice unless `intent` is `draft`. Prices and tax rates
+// come from the products, as on the invoice page.
+export const onPost = apiHandler(async (event) => {
+  const data = await readBody(event, invoiceInputSchema.extend({ items: z.unknown() }));
+  const checked = checkInvoiceInput(data.customerId, data.items, data.discount);
+  if ('errors' in checked) throw validationError(checked.errors);
+  const saved = saveInvoice({ customer: checked.customer, lines: checked.lines, discount: data.discount, issue: data.intent === 'issue' }, getBusinessProfile(event.env), API_ACTOR);
+  event.status(201);
+  return { ...findInvoice(saved.id), stockWarnings: saved.stockWarnings };
+});
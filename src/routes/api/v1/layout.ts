@@ -0,0 +1,14 @@
+import type { RequestHandler } from '@builder.io/qwik-city';
+import { apiKeys, isValidApiKey, requestApiKey } from '~/lib/api';
+
+// Every /api/v1 request needs one of the configured API keys. With no keys configured the API is switched off.
+export const onRequest: RequestHandler = ({ request, env, json, headers }) => {
+  headers.set('Cache-Control', 'no-store');
+  const keys = apiKeys(env);
+  if (keys.length === 0) {
+    json(404, { error: { message: 'The API is not enabled.' } });
+  } else if (!isValidApiKey(requestApiKey(request.headers), keys)) {
+    headers.set('WWW-Authenticate', 'Bearer');
+    json(401, { error: { message: 'A valid API key is required.' } });
+  }
+};
@@ -0,0 +1,21 @@
+import { API_ACTOR } from '~/lib/audit';
+import { apiHandler, idParam, notFound, readBody, validationError } from '~/lib/api';
+import { findProduct, productFieldErrors, productInputSchema, toProductFields, updateProduct } from '~/lib/products';
+
+// GET /api/v1/products/:id
+export const onGet = apiHandler((event) => {
+  const product = findProduct(idParam(event));
+  if (!product) throw notFound('Product');
+  return product;
+});
+
+// PUT /api/v1/products/:id - replaces the product's details. Stock only changes through sales and adjustments.
+export const onPut = apiHandler(async (event) => {
+  const id = idParam(event);
+  const data = await readBody(event, productInputSchema);
+  const fields = toProductFields(data);
+  const fieldErrors = productFieldErrors(fields, id);
+  if (Object.keys(fieldErrors).length) throw validationError(fieldErrors);
+  if (!updateProduct(id, fields, API_ACTOR)) throw notFound('Product');
+  return findProduct(id);
+});
@@ -0,0 +1,16 @@
+import { API_ACTOR } from '~/lib/audit';
+import { apiHandler, readBody, validationError } from '~/lib/api';
+import { createProduct, findProduct, listProducts, newProductInputSchema, productFieldErrors, toProductFields } from '~/lib/products';
+
+// GET /api/v1/products - all products, archived ones included.
+export const onGet = apiHandler(() => listProducts());
+
+// POST /api/v1/products - adds a product. As in the product form, `price` is given in rupees.
+export const onPost = apiHandler(async (event) => {
+  const data = await readBody(event, newProductInputSchema);
+  const fields = toProductFields(data);
+  const fieldErrors = productFieldErrors(fields);
+  if (Object.keys(fieldErrors).length) throw validationError(fieldErrors);
+  event.status(201);
+  return findProduct(createProduct(fields, data.openingStock, API_ACTOR));
+});
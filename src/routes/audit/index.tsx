@@ -0,0 +1,105 @@
+import { component$ } from '@builder.io/qwik';
+import type { DocumentHead } from '@builder.io/qwik-city';
+import { Link, routeLoader$, useLocation, useNavigate } from '@builder.io/qwik-city';
+import { auditActions, auditChanges, parseAuditQuery, searchAuditLog } from '~/lib/audit';
+import { listUsers, sessionUser } from '~/lib/auth';
+import { FORBIDDEN_MESSAGE, can } from '~/lib/permissions';
+import type { AuditEntity } from '~/lib/types';
+
+const ENTITY_LABELS: Record<AuditEntity, string> = {
+  customer: 'Customer', product: 'Product', invoice: 'Invoice', credit_note: 'Credit Note', quotation: 'Quotation', recurring_invoice: 'Recurring Invoice', user: 'User',
+  settings: 'Settings',
+};
+
+const ENTITY_HREFS: Partial<Record<AuditEntity, (id: number) => string>> = {
+  customer: id => `/customers/${id}/`,
+  invoice: id => `/invoices/${id}/`,
+  credit_note: id => `/credit-notes/${id}/`,
+  quotation: id => `/quotations/${id}/`,
+  recurring_invoice: id => `/recurring/${id}/`,
+  settings: () => '/settings/',
+};
+
+export const useAuditLoader = routeLoader$(({ url, sharedMap, error }) => {
+  if (!can(sessionUser(sharedMap), 'audit.view')) throw error(403, FORBIDDEN_MESSAGE);
+  const query = parseAuditQuery(url.searchParams);
+  const page = searchAuditLog(query);
+  return {
+    query,
+    ...page,
+    entries: page.entries.map(entry => ({ ...entry, changes: auditChanges(entry) })),
+    actions: auditActions(),
+    users: listUsers(),
+  };
+});
+
+export default component$(() => {
+    const audit = useAuditLoader().value;
+    // Filters and the page live in the URL, as in the invoice history.
+    const location = useLocation();
+    const nav = useNavigate();
+    const query = audit.query;
+    const pageHref = (page: number) => {
+        const params = new URLSearchParams(location.url.search);
+        params.set('page', String(page));
+        return `${location.url.pathname}?${params}`;
+    };
+    return <>
+        <h2>Audit Log</h2>
+        <p>Every change to customers, products, invoices, credit notes and users, with the record before and after. Entries can't be changed or removed.</p>
+        <form class="filters" preventdefault:submit onSubmit$={(_, form) => {
+            const params = new URLSearchParams();
+            for (const [key, value] of new FormData(form)) if (value) params.set(key, String(value));
+            nav(`${location.url.pathname}?${params}`);
+        }}>
+            <select name="entity">
+                <option value="">All records</option>
+                {Object.entries(ENTITY_LABELS).map(([entity, label]) => <option key={entity} value={entity} selected={query.entity === entity}>{label}</option>)}
+            </select>
+            <input name="entityId" type="number" min="1" value={query.entityId} placeholder="Record ID" />
+            <select name="action">
+                <option value="">All actions</option>
+                {audit.actions.map(action => <option key={action} value={action} selected={query.action === action}>{action}</option>)}
+            </select>
+            <select name="userId">
+                <option value="">All users</option>
+                {audit.users.map(user => <option key={user.id} value={user.id} selected={query.userId === user.id}>{user.name}</option>)}
+            </select>
+            <label>From:</label> <input name="from" type="date" value={query.from} />
+            <label>To:</label> <input name="to" type="date" value={query.to} />
+            <button type="submit">Search</button>
+            <Link class="button" href={location.url.pathname}>Clear</Link>
+        </form>
+        <table>
+            <thead><tr><th>Time</th><th>By</th><th>Record</th><th>Action</th><th>Changes</th></tr></thead>
+            <tbody>{audit.entries.map(entry => {
+                const href = ENTITY_HREFS[entry.entity]?.(entry.entityId);
+                const label = `${ENTITY_LABELS[entry.entity]} #${entry.entityId}`;
+                return (<tr key={entry.id}>
+                    <td>{new Date(entry.createdAt).toLocaleString()}</td>
+                    <td>{entry.userName ?? (entry.source === 'api' ? 'API' : 'System')}</td>
+                    <td>{href && entry.after ? <Link href={href}>{label}</Link> : label}</td>
+                    <td>{entry.action}</td>
+                    <td>{entry.changes.length === 0 ? '-' : <details>
+                        <summary>{entry.changes.map(change => change.field).join(', ')}</summary>
+                        <table class="audit-changes">
+                            <tbody>{entry.changes.map(change => (<tr key={change.field}>
+                                <th>{change.field}</th><td>{change.before || '-'}</td><td>{change.after || '-'}</td>
+                            </tr>))}</tbody>
+                        </table>
+                    </details>}</td>
+                </tr>);
+            })}</tbody>
+        </table>
+        {audit.total === 0 && <p>No changes match these filters.</p>}
+        {audit.pageCount > 1 && <div class="pagination">
+            {audit.page > 1 && <Link class="button" href={pageHref(audit.page - 1)}>← Previous</Link>}
+            <span>Page {audit.page} of {audit.pageCount} ({audit.total} changes)</span>
+            {audit.page < audit.pageCount && <Link class="button" href={pageHref(audit.page + 1)}>Next →</Link>}
+        </div>}
+    </>;
+});
+
+export const head: DocumentHead = {
+    title: 'Audit Log',
+};
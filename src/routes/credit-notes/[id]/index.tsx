@@ -0,0 +1,47 @@
+import { component$ } from '@builder.io/qwik';
+import type { DocumentHead } from '@builder.io/qwik-city';
+import { Link, routeLoader$ } from '@builder.io/qwik-city';
+import { findCreditNote } from '~/lib/credit-notes';
+import { formatMoney, savedLine } from '~/lib/money';
+import { useBusinessLoader } from '~/routes/layout';
+
+export const useCreditNoteLoader = routeLoader$(({ params, error }) => {
+  const creditNote = findCreditNote(Number(params.id));
+  if (!creditNote) throw error(404, 'Credit note not found');
+  return creditNote;
+});
+
+export default component$(() => {
+    const creditNote = useCreditNoteLoader().value;
+    const business = useBusinessLoader().value;
+    return <>
+        <Link class="button" href="/invoices/">← Back to List</Link>
+        <div class="invoice-detail">
+            <h3>Credit Note {creditNote.creditNoteNumber} <span class="badge credit_note">Credit Note</span></h3>
+            <p><strong>Customer:</strong> <Link href={`/customers/${creditNote.customerId}/`}>{creditNote.customerName}</Link></p>
+            <p><strong>Date:</strong> {new Date(creditNote.createdAt).toLocaleDateString(business.locale)}</p>
+            <p><strong>Against Invoice:</strong> <Link href={`/invoices/${creditNote.invoiceId}/`}>{creditNote.invoiceNumber}</Link></p>
+            <p><strong>Reason:</strong> {creditNote.reason}</p>
+            <h4>Returned Items</h4>
+            <table>
+                <thead><tr><th>Product</th><th>HSN/SAC</th><th>Qty</th><th>Price</th><th>Tax</th><th>CGST</th><th>SGST</th><th>IGST</th><th>Total</th></tr></thead>
+                <tbody>{creditNote.items.map(item => (<tr key={item.invoiceItemId}>
+                    <td>{item.name}</td><td>{item.hsnCode ?? '-'}</td><td>{`${item.quantity} ${item.unit}`}</td><td>{formatMoney(item.price, business)}</td><td>{item.tax}%</td>
+                    <td>{formatMoney(item.cgstAmount, business)}</td><td>{formatMoney(item.sgstAmount, business)}</td><td>{formatMoney(item.igstAmount, business)}</td>
+                    <td>{formatMoney(savedLine(item.taxableAmount, item).totalAmount, business)}</td>
+                </tr>))}</tbody>
+            </table>
+            <div class="invoice-summary">
+                <div class="summary-row"><span>Taxable Amount:</span> <span>{formatMoney(creditNote.taxableAmount, business)}</span></div>
+                {creditNote.cgstAmount > 0 && <div class="summary-row"><span>CGST Reversed:</span> <span>{formatMoney(creditNote.cgstAmount, business)}</span></div>}
+                {creditNote.sgstAmount > 0 && <div class="summary-row"><span>SGST Reversed:</span> <span>{formatMoney(creditNote.sgstAmount, business)}</span></div>}
+                {creditNote.igstAmount > 0 && <div class="summary-row"><span>IGST Reversed:</span> <span>{formatMoney(creditNote.igstAmount, business)}</span></div>}
+                <div class="summary-row total"><span>Total Credit:</span> <span>{formatMoney(creditNote.totalAmount, business)}</span></div>
+            </div>
+        </div>
+    </>;
+});
+
+export const head: DocumentHead = ({ resolveValue }) => ({
+    title: `Credit Note ${resolveValue(useCreditNoteLoader).creditNoteNumber}`,
+});
@@ -0,0 +1,136 @@
+import { component$, useSignal, useTask$ } from '@builder.io/qwik';
+import type { DocumentHead } from '@builder.io/qwik-city';
+import { Form, Link, routeAction$, routeLoader$, z, zod$ } from '@builder.io/qwik-city';
+import { CustomerFields } from '~/components/customer-fields/customer-fields';
+import { useSelectCustomer } from '~/components/invoice-draft/invoice-draft';
+import { useNotify } from '~/components/notification/notification';
+import { sessionActor, sessionUser } from '~/lib/auth';
+import { isForeignKeyError } from '~/lib/db';
+import { checkGstinState, customerFieldErrors, customerInputSchema, findCustomer, removeCustomer, restoreCustomer, toCustomerFields, updateCustomer } from '~/lib/customers';
+import { stateName } from '~/lib/gst';
+import { customerLedger } from '~/lib/ledger';
+import type { CustomerLedger } from '~/lib/ledger';
+import { formatMoney } from '~/lib/money';
+import type { MoneyFormat } from '~/lib/money';
+import { FORBIDDEN_MESSAGE, can } from '~/lib/permissions';
+import { useBusinessLoader, useCurrentUserLoader } from '~/routes/layout';
+
+export const useCustomerLoader = routeLoader$(({ params, error }) => {
+    const customer = findCustomer(Number(params.id));
+    if (!customer) throw error(404, 'Customer not found');
+    return customer;
+});
+
+export const useLedgerLoader = routeLoader$(async ({ resolveValue }) => customerLedger((await resolveValue(useCustomerLoader)).id));
+
+export const useUpdateCustomerAction = routeAction$((data, { params, sharedMap, fail }) => {
+    if (!can(sessionUser(sharedMap), 'customers.edit')) return fail(403, { message: FORBIDDEN_MESSAGE });
+    const fields = toCustomerFields(data);
+    const fieldErrors = customerFieldErrors(fields, Number(params.id));
+    if (Object.keys(fieldErrors).length) return fail(400, { message: 'Please correct the highlighted fields.', fieldErrors });
+    if (!updateCustomer(Number(params.id), fields, sessionActor(sharedMap))) return fail(404, { message: 'Customer not found.' });
+    return { success: true };
+}, zod$(customerInputSchema.superRefine(checkGstinState)));
+
+// `remove` deletes a customer, or archives them if they have been invoiced; `restore` brings an archived customer back.
+export const useArchiveCustomerAction = routeAction$((data, { params, sharedMap, fail, redirect }) => {
+    if (!can(sessionUser(sharedMap), 'customers.edit')) return fail(403, { message: FORBIDDEN_MESSAGE });
+    const id = Number(params.id);
+    if (data.intent === 'restore') {
+        return restoreCustomer(id, sessionActor(sharedMap)) ? { success: true, message: 'Customer restored.' } : fail(404, { message: 'Customer not found.' });
+    }
+    let result;
+    try {
+        result = removeCustomer(id, sessionActor(sharedMap));
+    } catch (error) {
+        if (isForeignKeyError(error)) return fail(409, { message: 'The customer is still in use, so they cannot be deleted.' });
+        console.error("Removing customer failed:", error);
+        return fail(500, { message: 'Failed to remove customer.' });
+    }
+    if (!result) return fail(404, { message: 'Customer not found.' });
+    if (result === 'deleted') throw redirect(302, '/customers/');
+    return { success: true, message: 'Customer archived. They stay on their past invoices.' };
+}, zod$({ intent: z.enum(['remove', 'restore']) }));
+
+export default component$(() => {
+    const customer = useCustomerLoader();
+    const ledger = useLedgerLoader();
+    const user = useCurrentUserLoader().value;
+    const business = useBusinessLoader().value;
+    const updateCustomerAction = useUpdateCustomerAction();
+    const archiveCustomerAction = useArchiveCustomerAction();
+    const selectCustomer = useSelectCustomer();
+    const notify = useNotify();
+    const editing = useSignal(false);
+
+    // Close the edit form once the changes are saved.
+    useTask$(({ track }) => {
+        track(() => updateCustomerAction.value);
+        if (updateCustomerAction.value?.success) {
+            editing.value = false;
+            notify('Customer updated.', 'success');
+        }
+    });
+
+    const c = customer.value;
+    return (<>
+        <Link class="button" href="/customers/">← Back to Customers</Link>
+        <div class="customer-info" style={{ marginTop: '15px' }}>
+            <h2>{c.name} {c.archivedAt && <span class="badge">Archived</span>}</h2>
+            <p><strong>Phone:</strong> {c.phone}</p>
+            <p><strong>Email:</strong> {c.email || 'N/A'}</p>
+            <p><strong>Address:</strong> {c.address || 'N/A'}</p>
+            <p><strong>State:</strong> {stateName(c.state)}</p>
+            {c.gstin && <p><strong>GSTIN:</strong> {c.gstin}</p>}
+            {archiveCustomerAction.value?.message && <div class={`notification ${archiveCustomerAction.value.failed ? 'error' : 'success'}`}>{archiveCustomerAction.value.message}</div>}
+            <div class="row-actions">
+                {!c.archivedAt && can(user, 'invoices.create') && <button onClick$={() => selectCustomer(c)}>Select for Invoice</button>}
+                {can(user, 'customers.edit') && <>
+                    <button onClick$={() => editing.value = !editing.value}>Edit</button>
+                    <Form action={archiveCustomerAction}>
+                        {c.archivedAt
+                            ? <button type="submit" name="intent" value="restore">Restore</button>
+                            : <button type="submit" name="intent" value="remove" class="danger">Remove</button>}
+                    </Form>
+                </>}
+            </div>
+        </div>
+        {editing.value && <>
+            <h3>Edit Customer</h3>
+            <Form action={updateCustomerAction} class="form-group">
+                <CustomerFields customer={c} action={updateCustomerAction} />
+                <button type="submit">Save Changes</button>
+                <button type="button" onClick$={() => editing.value = false}>Cancel</button>
+            </Form>
+        </>}
+        <CustomerLedgerView ledger={ledger.value} business={business} />
+    </>);
+});
+
+export const CustomerLedgerView = component$<{ ledger: CustomerLedger; business: MoneyFormat }>(({ ledger, business }) => (
+    <div class="customer-info">
+        <h3>Ledger</h3>
+        <table>
+            <thead><tr><th>0-30 days</th><th>31-60 days</th><th>61-90 days</th><th>90+ days</th><th>Total Outstanding</th></tr></thead>
+            <tbody><tr>
+                <td>{formatMoney(ledger.ageing.days0to30, business)}</td><td>{formatMoney(ledger.ageing.days31to60, business)}</td>
+                <td>{formatMoney(ledger.ageing.days61to90, business)}</td><td>{formatMoney(ledger.ageing.over90, business)}</td>
+                <td><strong>{formatMoney(ledger.outstanding, business)}</strong></td>
+            </tr></tbody>
+        </table>
+        {ledger.entries.length === 0 ? <p>No issued invoices for this customer.</p> : <table>
+            <thead><tr><th>Date</th><th>Description</th><th>Debit</th><th>Credit</th><th>Balance</th></tr></thead>
+            <tbody>{ledger.entries.map((entry, i) => (<tr key={i}>
+                <td>{new Date(entry.date).toLocaleDateString(business.locale)}</td>
+                <td>{entry.description}</td>
+                <td>{entry.debit ? formatMoney(entry.debit, business) : ''}</td>
+                <td>{entry.credit ? formatMoney(entry.credit, business) : ''}</td>
+                <td>{formatMoney(entry.balance, business)}</td>
+            </tr>))}</tbody>
+        </table>}
+    </div>
+));
+
+export const head: DocumentHead = ({ resolveValue }) => ({
+    title: resolveValue(useCustomerLoader).name,
+});
@@ -0,0 +1,68 @@
+import { $, component$, useSignal } from '@builder.io/qwik';
+import type { DocumentHead } from '@builder.io/qwik-city';
+import { Form, Link, routeAction$, routeLoader$, zod$ } from '@builder.io/qwik-city';
+import { CustomerFields } from '~/components/customer-fields/customer-fields';
+import { CustomerSearch } from '~/components/customer-search/customer-search';
+import { useSelectCustomer } from '~/components/invoice-draft/invoice-draft';
+import { sessionActor, sessionUser } from '~/lib/auth';
+import { checkGstinState, createCustomer, customerFieldErrors, customerInputSchema, listCustomers, toCustomerFields } from '~/lib/customers';
+import { stateName } from '~/lib/gst';
+import { FORBIDDEN_MESSAGE, can } from '~/lib/permissions';
+import type { Customer } from '~/lib/types';
+import { useCurrentUserLoader } from '~/routes/layout';
+
+export const useCustomersLoader = routeLoader$(() => listCustomers());
+
+export const useAddCustomerAction = routeAction$((data, { sharedMap, fail }) => {
+    if (!can(sessionUser(sharedMap), 'customers.edit')) return fail(403, { message: FORBIDDEN_MESSAGE });
+    const fields = toCustomerFields(data);
+    const fieldErrors = customerFieldErrors(fields);
+    if (Object.keys(fieldErrors).length) return fail(400, { message: 'Please correct the highlighted fields.', fieldErrors });
+    return { success: true, id: createCustomer(fields, sessionActor(sharedMap)) };
+}, zod$(customerInputSchema.superRefine(checkGstinState)));
+
+export default component$(() => {
+    const customers = useCustomersLoader();
+    const user = useCurrentUserLoader().value;
+    const addCustomerAction = useAddCustomerAction();
+    const selectCustomer = useSelectCustomer();
+    const foundCustomer = useSignal<Customer | null>(null);
+    return (<>
+        <h2>Customer Management</h2>
+        <div class="form-group">
+            <label>Find Customer:</label>
+            <CustomerSearch onSelect$={$((customer: Customer) => { foundCustomer.value = customer })} />
+        </div>
+        {foundCustomer.value && <div class="customer-info" style={{ marginTop: '15px' }}>
+            <h3>Customer Found</h3>
+            <p><strong>Name:</strong> {foundCustomer.value.name}</p>
+            <p><strong>Phone:</strong> {foundCustomer.value.phone}</p>
+            <p><strong>State:</strong> {stateName(foundCustomer.value.state)}</p>
+            {foundCustomer.value.gstin && <p><strong>GSTIN:</strong> {foundCustomer.value.gstin}</p>}
+            {can(user, 'invoices.create') && <button onClick$={() => selectCustomer(foundCustomer.value!)}>Select this Customer</button>}
+            <Link class="button" href={`/customers/${foundCustomer.value.id}/`}>View Customer</Link>
+        </div>}
+        <h3>Customer List</h3>
+        <table>
+            <thead><tr><th>Name</th><th>Phone</th><th>State</th><th>GSTIN</th></tr></thead>
+            <tbody>{customers.value.map(c => (<tr key={c.id}>
+                <td><Link href={`/customers/${c.id}/`}>{c.name}</Link> {c.archivedAt && <span class="badge">Archived</span>}</td>
+                <td>{c.phone}</td>
+                <td>{stateName(c.state)}</td>
+                <td>{c.gstin ?? '-'}</td>
+            </tr>))}</tbody>
+        </table>
+        {customers.value.length === 0 && <p>No customers have been added yet.</p>}
+        {can(user, 'customers.edit') && <>
+            <h3>Add New Customer</h3>
+            <Form action={addCustomerAction} class="form-group">
+                <CustomerFields action={addCustomerAction} />
+                <button type="submit">Add Customer</button>
+            </Form>
+        </>}
+    </>);
+});
+
+export const head: DocumentHead = {
+    title: 'Customers',
+};
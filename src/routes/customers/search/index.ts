@@ -0,0 +1,8 @@
+import type { RequestHandler } from '@builder.io/qwik-city';
+import { searchCustomers } from '~/lib/customers';
+
+// GET /customers/search?q=... - the best matching customers for the customer autocomplete.
+export const onGet: RequestHandler = ({ query, json, headers }) => {
+  headers.set('Cache-Control', 'no-store');
+  json(200, searchCustomers(query.get('q') ?? ''));
+};
@@ -0,0 +1,17 @@
+import type { RequestHandler } from '@builder.io/qwik-city';
+import { EXPORT_KINDS, exportCsv, exportFileName, exportRangeSchema } from '~/lib/csv-export';
+import type { ExportKind } from '~/lib/csv-export';
+
+// GET /export/:kind - customers, products or invoice lines as a CSV download. Invoice lines take `?from=&to=` dates.
+export const onGet: RequestHandler = ({ params, query, send, error }) => {
+  const kind = params.kind as ExportKind;
+  if (!EXPORT_KINDS.includes(kind)) throw error(404, 'Not found');
+  const range = exportRangeSchema.parse(Object.fromEntries(query));
+  send(new Response(exportCsv(kind, range), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${exportFileName(kind, range)}"`,
+      'Cache-Control': 'no-store',
+    },
+  }));
+};
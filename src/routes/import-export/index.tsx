@@ -0,0 +1,128 @@
+import { component$, useSignal, useTask$ } from '@builder.io/qwik';
+import type { DocumentHead } from '@builder.io/qwik-city';
+import { Form, routeAction$, routeLoader$, z, zod$ } from '@builder.io/qwik-city';
+import { useNotify } from '~/components/notification/notification';
+import { sessionActor, sessionUser } from '~/lib/auth';
+import { IMPORT_KINDS, ImportError, importCsv, previewImport } from '~/lib/csv-import';
+import type { ImportKind, ImportRowStatus } from '~/lib/csv-import';
+import { FORBIDDEN_MESSAGE, can } from '~/lib/permissions';
+import type { Permission } from '~/lib/permissions';
+
+const IMPORT_PERMISSIONS: Record<ImportKind, Permission> = { customers: 'customers.edit', products: 'products.edit' };
+
+const IMPORT_LABELS: Record<ImportKind, string> = { customers: 'Customers', products: 'Products' };
+
+const IMPORT_COLUMNS: Record<ImportKind, string> = {
+  customers: 'name, phone, email, address, state, gstin',
+  products: 'name, description, sku, hsnCode, unit, price, tax, lowStockLevel, openingStock',
+};
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = { new: 'New', duplicate: 'Already exists, skipped', invalid: 'Error' };
+
+// The kinds of records the user may import.
+export const useImportKindsLoader = routeLoader$(({ sharedMap }) =>
+  IMPORT_KINDS.filter(kind => can(sessionUser(sharedMap), IMPORT_PERMISSIONS[kind])));
+
+// `preview` checks the file and changes nothing; `import` adds the new rows, all or none.
+export const useImportAction = routeAction$((data, { sharedMap, fail }) => {
+  if (!can(sessionUser(sharedMap), IMPORT_PERMISSIONS[data.kind])) return fail(403, { message: FORBIDDEN_MESSAGE });
+  try {
+    if (data.intent === 'preview') return { success: true, preview: previewImport(data.kind, data.csv) };
+    const imported = importCsv(data.kind, data.csv, sessionActor(sharedMap));
+    return { success: true, imported };
+  } catch (error) {
+    if (error instanceof ImportError) return fail(400, { message: error.message });
+    console.error("Importing CSV failed:", error);
+    return fail(500, { message: 'Failed to import the file.' });
+  }
+}, zod$({ kind: z.enum(IMPORT_KINDS), csv: z.string().min(1, 'Choose a file or paste CSV text.'), intent: z.enum(['preview', 'import']) }));
+
+export default component$(() => {
+    const importKinds = useImportKindsLoader();
+    const importAction = useImportAction();
+    const notify = useNotify();
+    const csv = useSignal('');
+    // The import button appears once the current text has been previewed without errors.
+    const previewed = useSignal(false);
+
+    useTask$(({ track }) => {
+        const result = track(() => importAction.value);
+        if (result?.failed) {
+            previewed.value = false;
+            if (result.message) notify(result.message, 'error');
+        } else if (result?.preview) {
+            previewed.value = result.preview.counts.invalid === 0 && result.preview.counts.new > 0;
+        } else if (result?.imported) {
+            const { counts, kind } = result.imported;
+            notify(`Imported ${counts.new} ${kind}${counts.duplicate ? `; ${counts.duplicate} already existed and were skipped` : ''}.`, 'success');
+            csv.value = '';
+            previewed.value = false;
+        }
+    });
+
+    const preview = importAction.value?.preview;
+    return (<>
+        <h2>Import &amp; Export</h2>
+        <h3>Export</h3>
+        <div class="row-actions">
+            <a class="button" href="/export/customers/">Customers CSV</a>
+            <a class="button" href="/export/products/">Products CSV</a>
+        </div>
+        <form class="filters" method="get" action="/export/invoice-lines/">
+            <label>Invoice lines issued from:</label> <input name="from" type="date" />
+            <label>To:</label> <input name="to" type="date" />
+            <button type="submit">Invoice Lines CSV</button>
+        </form>
+
+        {importKinds.value.length > 0 && <>
+            <h3>Import</h3>
+            <p>
+                The first row names the columns. Customers whose phone number, or products whose SKU, is already on file are skipped.
+                Nothing is imported until every row is valid.
+            </p>
+            <Form action={importAction} class="form-group">
+                <label>Import:</label>
+                <select name="kind" onChange$={() => previewed.value = false}>
+                    {importKinds.value.map(kind => <option key={kind} value={kind}>{`${IMPORT_LABELS[kind]} (${IMPORT_COLUMNS[kind]})`}</option>)}
+                </select>
+                <label>CSV File:</label>
+                <input type="file" accept=".csv,text/csv" onChange$={async (_, input) => {
+                    csv.value = await input.files?.[0]?.text() ?? '';
+                    previewed.value = false;
+                }} />
+                <label>Or paste CSV text:</label>
+                <textarea name="csv" rows={8} value={csv.value} onInput$={(_, textarea) => {
+                    csv.value = textarea.value;
+                    previewed.value = false;
+                }} />
+                {importAction.value?.fieldErrors?.csv && <p class="field-error">{importAction.value.fieldErrors.csv}</p>}
+                <div class="row-actions">
+                    <button type="submit" name="intent" value="preview">Preview</button>
+                    {previewed.value && preview && <button type="submit" name="intent" value="import">{`Import ${preview.counts.new} ${preview.kind}`}</button>}
+                </div>
+            </Form>
+        </>}
+
+        {preview && <>
+            <h3>Preview</h3>
+            <p>
+                {preview.counts.new} new, {preview.counts.duplicate} already on file, {preview.counts.invalid} with errors.
+                {preview.ignoredColumns.length > 0 && ` Ignored columns: ${preview.ignoredColumns.join(', ')}.`}
+            </p>
+            <table>
+                <thead><tr><th>Row</th><th>Record</th><th>Status</th><th>Notes</th></tr></thead>
+                <tbody>{preview.rows.map(row => (<tr key={row.row} class={{ 'row-error': row.status === 'invalid' }}>
+                    <td>{row.row}</td>
+                    <td>{row.label || '-'}</td>
+                    <td>{STATUS_LABELS[row.status]}</td>
+                    <td>{row.messages.join(' ') || '-'}</td>
+                </tr>))}</tbody>
+            </table>
+            {preview.rows.length === 0 && <p>The file has no rows below the header.</p>}
+        </>}
+    </>);
+});
+
+export const head: DocumentHead = {
+    title: 'Import & Export',
+};
@@ -0,0 +1,9 @@
+import type { RequestHandler } from '@builder.io/qwik-city';
+import { sessionUser } from '~/lib/auth';
+import { can } from '~/lib/permissions';
+
+// The app opens on a new invoice, or on the history for users who can't create invoices. Customers, products and
+// the history each have their own page.
+export const onGet: RequestHandler = ({ redirect, sharedMap }) => {
+  throw redirect(302, can(sessionUser(sharedMap), 'invoices.create') ? '/invoices/new/' : '/invoices/');
+};
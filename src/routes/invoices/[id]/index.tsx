@@ -0,0 +1,247 @@
+import { component$ } from '@builder.io/qwik';
+import type { DocumentHead } from '@builder.io/qwik-city';
+import { Form, Link, routeAction$, routeLoader$, z, zod$ } from '@builder.io/qwik-city';
+import { sessionActor, sessionUser } from '~/lib/auth';
+import { getBusinessProfile } from '~/lib/business';
+import { createCreditNote, findInvoiceCreditNotes } from '~/lib/credit-notes';
+import { findCustomer } from '~/lib/customers';
+import { currentDate } from '~/lib/dates';
+import { stateName } from '~/lib/gst';
+import { findInvoiceEmails, sendInvoiceEmail } from '~/lib/invoice-email';
+import { INVOICE_STATUS_LABELS, PAYMENT_METHOD_LABELS, canCancel, canCreditNote, canEmail, canReceivePayment, invoiceLabel, isEditable, isOverdue, outstandingAmount } from '~/lib/invoice-status';
+import { InvoiceError, cancelInvoice, findInvoice, issueInvoice, recordPayment } from '~/lib/invoices';
+import { MailError, getMailConfig } from '~/lib/mail';
+import { currencySymbol, formatMoney, savedLine, toPaise, toRupees } from '~/lib/money';
+import { FORBIDDEN_MESSAGE, can } from '~/lib/permissions';
+import { findInvoiceQuotation } from '~/lib/quotations';
+import { findInvoiceRecurringRun } from '~/lib/recurring';
+import { useBusinessLoader, useCurrentUserLoader } from '~/routes/layout';
+
+export const useInvoiceLoader = routeLoader$(({ params, error }) => {
+  const invoice = findInvoice(Number(params.id));
+  if (!invoice) throw error(404, 'Invoice not found');
+  return {
+    invoice, creditNotes: findInvoiceCreditNotes(invoice.id), quotation: findInvoiceQuotation(invoice.id) ?? null, recurringRun: findInvoiceRecurringRun(invoice.id) ?? null,
+    emails: findInvoiceEmails(invoice.id), customerEmail: findCustomer(invoice.customerId)?.email ?? null, today: currentDate(),
+  };
+});
+
+export const useIssueInvoiceAction = routeAction$((_, { params, env, sharedMap, fail }) => {
+  if (!can(sessionUser(sharedMap), 'invoices.create')) return fail(403, { message: FORBIDDEN_MESSAGE });
+  try {
+    return { success: true, ...issueInvoice(Number(params.id), getBusinessProfile(env), sessionActor(sharedMap)) };
+  } catch (error) {
+    if (error instanceof InvoiceError) return fail(409, { message: error.message });
+    console.error("Issuing invoice failed:", error);
+    return fail(500, { message: 'Failed to issue invoice.' });
+  }
+});
+
+export const useCancelInvoiceAction = routeAction$((data, { params, sharedMap, fail }) => {
+  if (!can(sessionUser(sharedMap), 'invoices.cancel')) return fail(403, { message: FORBIDDEN_MESSAGE });
+  try {
+    cancelInvoice(Number(params.id), data.reason, sessionActor(sharedMap));
+    return { success: true };
+  } catch (error) {
+    if (error instanceof InvoiceError) return fail(409, { message: error.message });
+    console.error("Cancelling invoice failed:", error);
+    return fail(500, { message: 'Failed to cancel invoice.' });
+  }
+}, zod$({ reason: z.string().trim().min(3, 'Please give a reason for cancelling.') }));
+
+export const useRecordPaymentAction = routeAction$((data, { params, env, sharedMap, fail }) => {
+  if (!can(sessionUser(sharedMap), 'payments.record')) return fail(403, { message: FORBIDDEN_MESSAGE });
+  try {
+    return { success: true, status: recordPayment(Number(params.id), { amount: toPaise(data.amount), paidAt: data.paidAt, method: data.method, reference: data.reference }, getBusinessProfile(env), sessionActor(sharedMap)) };
+  } catch (error) {
+    if (error instanceof InvoiceError) return fail(409, { message: error.message });
+    console.error("Recording payment failed:", error);
+    return fail(500, { message: 'Failed to record payment.' });
+  }
+}, zod$({
+  amount: z.coerce.number().positive('Amount must be greater than zero.'),
+  paidAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Enter the payment date.'),
+  method: z.enum(['cash', 'upi', 'card', 'bank']),
+  reference: z.string().trim().max(100).optional(),
+}));
+
+export const useCreateCreditNoteAction = routeAction$((data, { params, env, sharedMap, fail }) => {
+  if (!can(sessionUser(sharedMap), 'creditNotes.create')) return fail(403, { message: FORBIDDEN_MESSAGE });
+  try {
+    return { success: true, ...createCreditNote(Number(params.id), { reason: data.reason, items: data.items }, getBusinessProfile(env), sessionActor(sharedMap)) };
+  } catch (error) {
+    if (error instanceof InvoiceError) return fail(409, { message: error.message });
+    console.error("Creating credit note failed:", error);
+    return fail(500, { message: 'Failed to create credit note.' });
+  }
+}, zod$({
+  reason: z.string().trim().min(3, 'Please give a reason for the credit note.'),
+  items: z.array(z.object({
+    invoiceItemId: z.coerce.number().int().positive(),
+    quantity: z.coerce.number().int('Quantity must be a whole number').min(0, 'Quantity cannot be negative'),
+  })).min(1),
+}));
+
+export const useSendInvoiceAction = routeAction$(async (data, { params, env, sharedMap, fail }) => {
+  if (!can(sessionUser(sharedMap), 'invoices.send')) return fail(403, { message: FORBIDDEN_MESSAGE });
+  try {
+    return { success: true, ...await sendInvoiceEmail(Number(params.id), data.recipient, getBusinessProfile(env), getMailConfig(env), sessionActor(sharedMap)) };
+  } catch (error) {
+    if (error instanceof InvoiceError) return fail(409, { message: error.message });
+    if (error instanceof MailError) return fail(502, { message: error.message });
+    console.error("Sending invoice failed:", error);
+    return fail(500, { message: 'Failed to send invoice.' });
+  }
+}, zod$({ recipient: z.string().trim().email('Enter a valid email address.') }));
+
+export default component$(() => {
+    const detail = useInvoiceLoader().value;
+    const user = useCurrentUserLoader().value;
+    const business = useBusinessLoader().value;
+    const issueInvoiceAction = useIssueInvoiceAction();
+    const cancelInvoiceAction = useCancelInvoiceAction();
+    const recordPaymentAction = useRecordPaymentAction();
+    const createCreditNoteAction = useCreateCreditNoteAction();
+    const sendInvoiceAction = useSendInvoiceAction();
+    const selected = detail.invoice;
+    const lineDiscounts = selected.items.reduce((sum, item) => sum + item.discountAmount, 0);
+    const actionError = [issueInvoiceAction.value, cancelInvoiceAction.value, recordPaymentAction.value, createCreditNoteAction.value, sendInvoiceAction.value]
+        .map(result => result?.failed && (result.message || ('fieldErrors' in result ? Object.values(result.fieldErrors ?? {})[0] : undefined))).find(Boolean);
+    return <>
+        {actionError && <div class="notification error">{actionError}</div>}
+        {sendInvoiceAction.value?.success && <div class="notification success">Invoice sent to {sendInvoiceAction.value.recipient} ({sendInvoiceAction.value.transport}).</div>}
+        {issueInvoiceAction.value?.stockWarnings?.length ? <div class="notification warning">Issued with insufficient stock: {issueInvoiceAction.value.stockWarnings.join(', ')}.</div> : null}
+        <Link class="button" href="/invoices/">← Back to List</Link>
+        <a class="button" href={`/invoices/${selected.id}/pdf`} target="_blank">View PDF</a>
+        <a class="button" href={`/invoices/${selected.id}/pdf?download`}>Download PDF</a>
+        <div class="invoice-detail">
+            <h3>Invoice {invoiceLabel(selected)} <span class={`badge ${selected.status}`}>{INVOICE_STATUS_LABELS[selected.status]}</span></h3>
+            <p><strong>Customer:</strong> <Link href={`/customers/${selected.customerId}/`}>{selected.customerName}</Link></p>
+            <p><strong>Date:</strong> {new Date(selected.issuedAt ?? selected.createdAt).toLocaleDateString(business.locale)}</p>
+            {selected.dueDate && <p>
+                <strong>Due Date:</strong> {new Date(selected.dueDate).toLocaleDateString(business.locale, { timeZone: 'UTC' })}
+                {isOverdue(selected, detail.today) && <> <span class="badge expired">Overdue</span></>}
+            </p>}
+            <p><strong>Place of Supply:</strong> {stateName(selected.placeOfSupply)}</p>
+            {selected.createdByName && <p><strong>Created By:</strong> {selected.createdByName}</p>}
+            {detail.quotation && <p><strong>Quotation:</strong> <Link href={`/quotations/${detail.quotation.id}/`}>{detail.quotation.quotationNumber}</Link></p>}
+            {detail.recurringRun && <p><strong>Recurring Invoice:</strong> <Link href={`/recurring/${detail.recurringRun.recurringInvoiceId}/`}>#{detail.recurringRun.recurringInvoiceId}</Link>, run of {detail.recurringRun.period}</p>}
+            {selected.status === 'cancelled' && <p><strong>Cancelled:</strong> {new Date(selected.cancelledAt!).toLocaleDateString(business.locale)} ({selected.cancelReason})</p>}
+            <h4>Items</h4>
+            <table>
+                <thead><tr><th>Product</th><th>HSN/SAC</th><th>Qty</th><th>Price</th><th>Discount</th><th>Tax</th><th>CGST</th><th>SGST</th><th>IGST</th><th>Total</th></tr></thead>
+                <tbody>{selected.items.map(item => {
+                    const line = savedLine(item.taxableAmount, item);
+                    const discount = item.discountAmount + item.invoiceDiscountAmount;
+                    return (<tr key={item.itemId}>
+                        <td>{item.name}</td><td>{item.hsnCode ?? '-'}</td><td>{`${item.quantity} ${item.unit}`}{item.creditedQuantity > 0 && ` (${item.creditedQuantity} returned)`}</td><td>{formatMoney(item.price, business)}</td>
+                        <td>{discount > 0 ? formatMoney(discount, business) : '-'}{item.discountPercent !== null && ` (${item.discountPercent}%)`}</td><td>{item.tax}%</td>
+                        <td>{formatMoney(item.cgstAmount, business)}</td><td>{formatMoney(item.sgstAmount, business)}</td><td>{formatMoney(item.igstAmount, business)}</td>
+                        <td>{formatMoney(line.totalAmount, business)}</td>
+                    </tr>)
+                })}</tbody>
+            </table>
+            <div class="invoice-summary">
+                {lineDiscounts + selected.discountAmount > 0 && <>
+                    <div class="summary-row"><span>Subtotal:</span> <span>{formatMoney(selected.taxableAmount + lineDiscounts + selected.discountAmount, business)}</span></div>
+                    {lineDiscounts > 0 && <div class="summary-row"><span>Line Discounts:</span> <span>-{formatMoney(lineDiscounts, business)}</span></div>}
+                    {selected.discountAmount > 0 && <div class="summary-row"><span>Invoice Discount{selected.discountPercent !== null && ` (${selected.discountPercent}%)`}:</span> <span>-{formatMoney(selected.discountAmount, business)}</span></div>}
+                </>}
+                <div class="summary-row"><span>Taxable Amount:</span> <span>{formatMoney(selected.taxableAmount, business)}</span></div>
+                {selected.cgstAmount > 0 && <div class="summary-row"><span>CGST:</span> <span>{formatMoney(selected.cgstAmount, business)}</span></div>}
+                {selected.sgstAmount > 0 && <div class="summary-row"><span>SGST:</span> <span>{formatMoney(selected.sgstAmount, business)}</span></div>}
+                {selected.igstAmount > 0 && <div class="summary-row"><span>IGST:</span> <span>{formatMoney(selected.igstAmount, business)}</span></div>}
+                <div class="summary-row total"><span>Grand Total:</span> <span>{formatMoney(selected.totalAmount, business)}</span></div>
+                {selected.amountCredited > 0 && <div class="summary-row"><span>Credited:</span> <span>{formatMoney(selected.amountCredited, business)}</span></div>}
+                {selected.amountPaid > 0 && <div class="summary-row"><span>Paid:</span> <span>{formatMoney(selected.amountPaid, business)}</span></div>}
+                {canReceivePayment(selected) && <div class="summary-row total"><span>Outstanding:</span> <span>{formatMoney(outstandingAmount(selected), business)}</span></div>}
+            </div>
+            {selected.payments.length > 0 && <>
+                <h4>Payments</h4>
+                <table>
+                    <thead><tr><th>Date</th><th>Method</th><th>Reference</th><th>Amount</th></tr></thead>
+                    <tbody>{selected.payments.map(payment => (<tr key={payment.id}>
+                        <td>{new Date(payment.paidAt).toLocaleDateString(business.locale)}</td>
+                        <td>{PAYMENT_METHOD_LABELS[payment.method]}</td>
+                        <td>{payment.reference ?? '-'}</td>
+                        <td>{formatMoney(payment.amount, business)}</td>
+                    </tr>))}</tbody>
+                </table>
+            </>}
+            {detail.creditNotes.length > 0 && <>
+                <h4>Credit Notes</h4>
+                <table>
+                    <thead><tr><th>Credit Note No</th><th>Date</th><th>Reason</th><th>Amount</th><th>Action</th></tr></thead>
+                    <tbody>{detail.creditNotes.map(note => (<tr key={note.id}>
+                        <td>{note.creditNoteNumber}</td>
+                        <td>{new Date(note.createdAt).toLocaleDateString(business.locale)}</td>
+                        <td>{note.reason}</td>
+                        <td>{formatMoney(note.totalAmount, business)}</td>
+                        <td><Link class="button" href={`/credit-notes/${note.id}/`}>View</Link></td>
+                    </tr>))}</tbody>
+                </table>
+            </>}
+
+            {detail.emails.length > 0 && <>
+                <h4>Emails</h4>
+                <table>
+                    <thead><tr><th>Date</th><th>To</th><th>Sent By</th><th>Status</th></tr></thead>
+                    <tbody>{detail.emails.map(email => (<tr key={email.id} class={{ 'row-error': email.status === 'failed' }}>
+                        <td>{new Date(email.createdAt).toLocaleString(business.locale)}</td>
+                        <td>{email.recipient}</td>
+                        <td>{email.sentByName ?? 'System'}</td>
+                        <td>{email.status === 'sent' ? `Sent (${email.transport})` : `Failed: ${email.error}`}</td>
+                    </tr>))}</tbody>
+                </table>
+            </>}
+
+            {isEditable(selected) && can(user, 'invoices.create') && <div class="actions">
+                <Link class="button" href={`/invoices/new/?draft=${selected.id}`}>Edit Draft</Link>
+                <Form action={issueInvoiceAction}>
+                    <button type="submit">Issue Invoice</button>
+                </Form>
+            </div>}
+            {canReceivePayment(selected) && can(user, 'payments.record') && <Form action={recordPaymentAction} class="form-group">
+                <h4>Record Payment</h4>
+                <label>Amount ({currencySymbol(business)}):</label> <input name="amount" type="number" step="0.01" min="0.01" value={toRupees(outstandingAmount(selected)).toFixed(2)} required />
+                <label>Payment Date:</label> <input name="paidAt" type="date" value={new Date().toISOString().slice(0, 10)} required />
+                <label>Method:</label>
+                <select name="method">
+                    {Object.entries(PAYMENT_METHOD_LABELS).map(([method, label]) => <option key={method} value={method}>{label}</option>)}
+                </select>
+                <label>Reference:</label> <input name="reference" placeholder="UPI transaction id, cheque or card slip number" />
+                <button type="submit">Record Payment</button>
+            </Form>}
+            {canEmail(selected) && can(user, 'invoices.send') && <Form action={sendInvoiceAction} class="form-group">
+                <h4>Send Invoice</h4>
+                <p>Emails the invoice to the customer with the PDF attached.</p>
+                <label>To:</label> <input name="recipient" type="email" value={detail.customerEmail ?? ''} placeholder="customer@example.com" required />
+                <button type="submit">Send Invoice</button>
+            </Form>}
+            {canCreditNote(selected) && can(user, 'creditNotes.create') && selected.items.some(item => item.quantity > item.creditedQuantity) && <Form action={createCreditNoteAction} class="form-group">
+                <h4>Issue Credit Note</h4>
+                <table>
+                    <thead><tr><th>Product</th><th>Sold</th><th>Returned</th><th>Return Now</th></tr></thead>
+                    <tbody>{selected.items.map((item, index) => (<tr key={item.itemId}>
+                        <td>{item.name}</td><td>{item.quantity}</td><td>{item.creditedQuantity}</td>
+                        <td>
+                            <input type="hidden" name={`items.${index}.invoiceItemId`} value={item.itemId} />
+                            <input name={`items.${index}.quantity`} type="number" min="0" max={item.quantity - item.creditedQuantity} value="0" />
+                        </td>
+                    </tr>))}</tbody>
+                </table>
+                <label>Reason:</label> <input name="reason" placeholder="e.g. Goods returned damaged" required />
+                <button type="submit">Issue Credit Note</button>
+            </Form>}
+            {canCancel(selected) && can(user, 'invoices.cancel') && <Form action={cancelInvoiceAction} class="form-group">
+                <h4>Cancel Invoice</h4>
+                <label>Reason:</label> <input name="reason" required />
+                <button type="submit" class="danger">Cancel Invoice</button>
+            </Form>}
+        </div>
+    </>;
+});
+
+export const head: DocumentHead = ({ resolveValue }) => ({
+    title: `Invoice ${invoiceLabel(resolveValue(useInvoiceLoader).invoice)}`,
+});
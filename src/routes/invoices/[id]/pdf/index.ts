@@ -0,0 +1,21 @@
+import type { RequestHandler } from '@builder.io/qwik-city';
+import { getBusinessProfile } from '~/lib/business';
+import { invoicePdfFileName, renderInvoicePdf } from '~/lib/invoice-pdf';
+import { findInvoiceWithCustomer } from '~/lib/invoices';
+
+// GET /invoices/:id/pdf - the saved invoice as a downloadable tax-invoice PDF.
+export const onGet: RequestHandler = async ({ params, env, send, error, query }) => {
+  const id = Number(params.id);
+  const found = Number.isInteger(id) ? findInvoiceWithCustomer(id) : null;
+  if (!found) throw error(404, 'Invoice not found');
+
+  const bytes = await renderInvoicePdf(found.invoice, found.customer, getBusinessProfile(env));
+  const disposition = query.has('download') ? 'attachment' : 'inline';
+  send(new Response(bytes, {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `${disposition}; filename="${invoicePdfFileName(found.invoice)}"`,
+      'Cache-Control': 'no-store',
+    },
+  }));
+};
@@ -0,0 +1,96 @@
+import { component$ } from '@builder.io/qwik';
+import type { DocumentHead } from '@builder.io/qwik-city';
+import { Link, routeLoader$, useLocation, useNavigate } from '@builder.io/qwik-city';
+import { parseHistoryQuery, searchHistory } from '~/lib/history';
+import type { HistorySort } from '~/lib/history';
+import { INVOICE_STATUS_LABELS, invoiceLabel } from '~/lib/invoice-status';
+import { currencySymbol, formatMoney } from '~/lib/money';
+import type { InvoiceStatus } from '~/lib/types';
+import { useBusinessLoader } from '~/routes/layout';
+
+export const useHistoryLoader = routeLoader$(({ url }) => {
+  const query = parseHistoryQuery(url.searchParams);
+  return { query, ...searchHistory(query) };
+});
+
+export default component$(() => {
+    const history = useHistoryLoader().value;
+    const business = useBusinessLoader().value;
+    // Filters, sorting and the page live in the URL, so every view can be linked to and reloaded.
+    const location = useLocation();
+    const nav = useNavigate();
+    const query = history.query;
+    const historyHref = (changes: Record<string, string | number | undefined>) => {
+        const params = new URLSearchParams(location.url.search);
+        for (const [key, value] of Object.entries(changes)) {
+            if (value === undefined) params.delete(key);
+            else params.set(key, String(value));
+        }
+        return `${location.url.pathname}?${params}`;
+    };
+    const sortHref = (sort: HistorySort) => historyHref({
+        sort, page: undefined,
+        order: sort === query.sort ? (query.order === 'asc' ? 'desc' : 'asc') : (sort === 'customer' || sort === 'number' ? 'asc' : 'desc'),
+    });
+    const sortMark = (sort: HistorySort) => sort === query.sort ? (query.order === 'asc' ? ' ▲' : ' ▼') : '';
+    return <>
+        <h2>Invoice History</h2>
+        <form class="filters" preventdefault:submit onSubmit$={(_, form) => {
+            const params = new URLSearchParams();
+            for (const [key, value] of new FormData(form)) if (value) params.set(key, String(value));
+            nav(`${location.url.pathname}?${params}`);
+        }}>
+            <input name="q" value={query.q} placeholder="Number, customer name or phone" />
+            <select name="status">
+                <option value="">All</option>
+                {Object.entries(INVOICE_STATUS_LABELS).map(([status, label]) => <option key={status} value={status} selected={query.status === status}>{label}</option>)}
+                <option value="credit_note" selected={query.status === 'credit_note'}>Credit Notes</option>
+            </select>
+            <label>From:</label> <input name="from" type="date" value={query.from} />
+            <label>To:</label> <input name="to" type="date" value={query.to} />
+            <input name="min" type="number" step="0.01" min="0" value={query.min} placeholder={`Min ${currencySymbol(business)}`} />
+            <input name="max" type="number" step="0.01" min="0" value={query.max} placeholder={`Max ${currencySymbol(business)}`} />
+            <input type="hidden" name="sort" value={query.sort} />
+            <input type="hidden" name="order" value={query.order} />
+            <button type="submit">Search</button>
+            <Link class="button" href={location.url.pathname}>Clear</Link>
+        </form>
+        <table>
+            <thead><tr>
+                <th><Link href={sortHref('number')}>Number{sortMark('number')}</Link></th>
+                <th><Link href={sortHref('customer')}>Customer{sortMark('customer')}</Link></th>
+                <th><Link href={sortHref('date')}>Date{sortMark('date')}</Link></th>
+                <th>Status</th>
+                <th><Link href={sortHref('total')}>Total{sortMark('total')}</Link></th>
+                <th>Outstanding</th><th>Action</th>
+            </tr></thead>
+            <tbody>{history.rows.map(row => row.kind === 'invoice' ? (<tr key={`invoice-${row.id}`}>
+                <td>{invoiceLabel({ id: row.id, invoiceNumber: row.number })}</td>
+                <td>{row.customerName}</td>
+                <td>{new Date(row.date).toLocaleDateString(business.locale)}</td>
+                <td><span class={`badge ${row.status}`}>{INVOICE_STATUS_LABELS[row.status as InvoiceStatus]}</span></td>
+                <td>{formatMoney(row.totalAmount, business)}</td>
+                <td>{row.outstanding > 0 ? formatMoney(row.outstanding, business) : '-'}</td>
+                <td><Link class="button" href={`/invoices/${row.id}/`}>View Details</Link></td>
+            </tr>) : (<tr key={`credit-note-${row.id}`}>
+                <td>{row.number}</td>
+                <td>{row.customerName}</td>
+                <td>{new Date(row.date).toLocaleDateString(business.locale)}</td>
+                <td><span class="badge credit_note">Credit Note</span></td>
+                <td>-{formatMoney(row.totalAmount, business)}</td>
+                <td>-</td>
+                <td><Link class="button" href={`/credit-notes/${row.id}/`}>View Details</Link></td>
+            </tr>))}</tbody>
+        </table>
+        {history.total === 0 && <p>No invoices match these filters.</p>}
+        {history.pageCount > 1 && <div class="pagination">
+            {history.page > 1 && <Link class="button" href={historyHref({ page: history.page - 1 })}>← Previous</Link>}
+            <span>Page {history.page} of {history.pageCount} ({history.total} documents)</span>
+            {history.page < history.pageCount && <Link class="button" href={historyHref({ page: history.page + 1 })}>Next →</Link>}
+        </div>}
+    </>;
+});
+
+export const head: DocumentHead = {
+    title: 'Invoices',
+};
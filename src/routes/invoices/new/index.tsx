@@ -0,0 +1,323 @@
+import { $, component$, isBrowser, useContext, useTask$ } from '@builder.io/qwik';
+import type { QRL } from '@builder.io/qwik';
+import type { DocumentHead, RequestHandler } from '@builder.io/qwik-city';
+import { Form, Link, routeAction$, routeLoader$, useNavigate, z, zod$ } from '@builder.io/qwik-city';
+import { InvoiceDraftContext } from '~/components/invoice-draft/invoice-draft';
+import type { InvoiceDraft } from '~/components/invoice-draft/invoice-draft';
+import { useNotify } from '~/components/notification/notification';
+import { sessionActor, sessionUser } from '~/lib/auth';
+import { getBusinessProfile } from '~/lib/business';
+import { currentDate } from '~/lib/dates';
+import { priceInvoice, storedDiscount } from '~/lib/discounts';
+import type { Discount } from '~/lib/discounts';
+import { isInterState, placeOfSupplyFor, stateName } from '~/lib/gst';
+import { isEditable } from '~/lib/invoice-status';
+import { InvoiceError, checkInvoiceInput, findInvoiceWithCustomer, invoiceInputSchema, readItemsJSON, saveInvoice } from '~/lib/invoices';
+import type { InvoiceFieldErrors } from '~/lib/invoices';
+import { currencySymbol, formatMoney, toPaise, toRupees } from '~/lib/money';
+import { FORBIDDEN_MESSAGE, can } from '~/lib/permissions';
+import { findProduct } from '~/lib/products';
+import { QuotationError, createQuotation, defaultValidUntil, quotationInputSchema } from '~/lib/quotations';
+import { RecurringInvoiceError, checkRecurringDates, createRecurringInvoice, recurringInputSchema } from '~/lib/recurring';
+import { FREQUENCY_LABELS, RECURRING_FREQUENCIES } from '~/lib/recurring-schedule';
+import type { InvoiceItem } from '~/lib/types';
+import { useBusinessLoader, useCurrentUserLoader } from '~/routes/layout';
+
+// Users who can't create invoices or quotations are sent to the invoice history instead.
+export const onGet: RequestHandler = ({ sharedMap, redirect }) => {
+  const user = sessionUser(sharedMap);
+  if (!can(user, 'invoices.create') && !can(user, 'quotations.create')) throw redirect(302, '/invoices/');
+};
+
+export const useSellerStateLoader = routeLoader$(({ env }) => getBusinessProfile(env).stateCode);
+
+export const useQuotationValidityLoader = routeLoader$(({ env }) => ({ today: currentDate(), validUntil: defaultValidUntil(getBusinessProfile(env)) }));
+
+// `?draft=<id>` opens a saved draft for editing. Items are re-read from the current products, as the server reprices them on save anyway.
+export const useSavedDraftLoader = routeLoader$(({ url }) => {
+  const id = Number(url.searchParams.get('draft'));
+  const found = id ? findInvoiceWithCustomer(id) : null;
+  if (!found || !isEditable(found.invoice)) return null;
+  const items = found.invoice.items.map(item => ({
+    ...(findProduct(item.id) ?? item), quantity: item.quantity, discount: storedDiscount(item.discountPercent, item.discountAmount),
+  })) as InvoiceItem[];
+  return { id, customer: found.customer, items, discount: storedDiscount(found.invoice.discountPercent, found.invoice.discountAmount) };
+});
+
+export const useCreateInvoiceAction = routeAction$((data, { env, sharedMap, fail }) => {
+  if (!can(sessionUser(sharedMap), 'invoices.create')) return fail(403, { message: FORBIDDEN_MESSAGE });
+  // Only ids, quantities and discounts are taken from the form; everything priced comes from the database.
+  const checked = checkInvoiceInput(data.customerId, readItemsJSON(data.itemsJSON), data.discount);
+  if ('errors' in checked) return fail(400, { message: 'Please correct the highlighted fields.', fieldErrors: checked.errors });
+
+  try {
+    const saved = saveInvoice({ customer: checked.customer, lines: checked.lines, discount: data.discount, draftId: data.draftId, issue: data.intent === 'issue'}, getBusinessProfile(env), sessionActor(sharedMap));
+    return { success: true, ...saved };
+  } catch (error) {
+    if (error instanceof InvoiceError) return fail(409, { message: error.message });
+    console.error("Invoice creation failed:", error);
+    return { success: false, error: "Failed to save invoice." };
+  }
+}, zod$(invoiceInputSchema.extend({
+  itemsJSON: z.string().min(1),
+  draftId: z.coerce.number().int().positive().optional(),
+})));
+
+// Saves the same customer, items and discounts as a quotation instead of an invoice.
+export const useCreateQuotationAction = routeAction$((data, { env, sharedMap, fail }) => {
+  if (!can(sessionUser(sharedMap), 'quotations.create')) return fail(403, { message: FORBIDDEN_MESSAGE });
+  const checked = checkInvoiceInput(data.customerId, readItemsJSON(data.itemsJSON), data.discount);
+  if ('errors' in checked) return fail(400, { message: 'Please correct the highlighted fields.', fieldErrors: checked.errors });
+
+  try {
+    const saved = createQuotation({ customer: checked.customer, lines: checked.lines, discount: data.discount, validUntil: data.validUntil }, getBusinessProfile(env), sessionActor(sharedMap));
+    return { success: true, ...saved };
+  } catch (error) {
+    if (error instanceof QuotationError) return fail(409, { message: error.message });
+    console.error("Quotation creation failed:", error);
+    return fail(500, { message: 'Failed to save quotation.' });
+  }
+}, zod$(quotationInputSchema.extend({ itemsJSON: z.string().min(1) })));
+
+// Saves the customer, items and discounts as a template that generates invoices on a schedule.
+export const useCreateRecurringAction = routeAction$((data, { sharedMap, fail }) => {
+  if (!can(sessionUser(sharedMap), 'recurring.manage')) return fail(403, { message: FORBIDDEN_MESSAGE });
+  const checked = checkInvoiceInput(data.customerId, readItemsJSON(data.itemsJSON), data.discount);
+  if ('errors' in checked) return fail(400, { message: 'Please correct the highlighted fields.', fieldErrors: checked.errors });
+
+  try {
+    const saved = createRecurringInvoice({
+      customer: checked.customer, lines: checked.lines, discount: data.discount, frequency: data.frequency, startDate: data.startDate, endDate: data.endDate,
+      issue: data.mode === 'issue',
+    }, sessionActor(sharedMap));
+    return { success: true, ...saved };
+  } catch (error) {
+    if (error instanceof RecurringInvoiceError) return fail(409, { message: error.message });
+    console.error("Recurring invoice creation failed:", error);
+    return fail(500, { message: 'Failed to save recurring invoice.' });
+  }
+}, zod$(recurringInputSchema.extend({ itemsJSON: z.string().min(1) }).superRefine(checkRecurringDates)));
+
+export default component$(() => {
+    const sellerState = useSellerStateLoader().value;
+    const savedDraft = useSavedDraftLoader();
+    const createInvoiceAction = useCreateInvoiceAction();
+    const createQuotationAction = useCreateQuotationAction();
+    const createRecurringAction = useCreateRecurringAction();
+    const quotationValidity = useQuotationValidityLoader().value;
+    const user = useCurrentUserLoader().value;
+    const business = useBusinessLoader().value;
+    const invoiceState = useContext(InvoiceDraftContext);
+    const notify = useNotify();
+    const nav = useNavigate();
+
+    // Load a saved draft into the form when one is opened for editing.
+    useTask$(({ track }) => {
+        const saved = track(() => savedDraft.value);
+        if (!saved || invoiceState.draftId === saved.id) return;
+        invoiceState.draftId = saved.id;
+        invoiceState.customer = saved.customer;
+        invoiceState.items = saved.items;
+        invoiceState.discount = saved.discount;
+    });
+
+    // Reset the form after a successful save and show the saved invoice.
+    useTask$(({ track }) => {
+        const result = track(() => createInvoiceAction.value);
+        if (!result?.success || !('id' in result)) return;
+        invoiceState.draftId = null;
+        invoiceState.customer = null;
+        invoiceState.items = [];
+        invoiceState.discount = null;
+        const stockWarnings = result.stockWarnings ?? [];
+        if (stockWarnings.length) notify(`Invoice ${result.invoiceNumber} issued with insufficient stock: ${stockWarnings.join(', ')}.`, 'warning');
+        else notify(result.invoiceNumber ? `Invoice ${result.invoiceNumber} issued successfully!` : 'Draft saved successfully!', 'success');
+        if (isBrowser) nav(`/invoices/${result.id}/`);
+    });
+
+    // The same for a saved quotation.
+    useTask$(({ track }) => {
+        const result = track(() => createQuotationAction.value);
+        if (!result?.success || !('id' in result)) return;
+        invoiceState.draftId = null;
+        invoiceState.customer = null;
+        invoiceState.items = [];
+        invoiceState.discount = null;
+        notify(`Quotation ${result.quotationNumber} saved.`, 'success');
+        if (isBrowser) nav(`/quotations/${result.id}/`);
+    });
+
+    // And for a saved recurring invoice.
+    useTask$(({ track }) => {
+        const result = track(() => createRecurringAction.value);
+        if (!result?.success || !('id' in result)) return;
+        invoiceState.draftId = null;
+        invoiceState.customer = null;
+        invoiceState.items = [];
+        invoiceState.discount = null;
+        notify(`Recurring invoice #${result.id} saved.`, 'success');
+        if (isBrowser) nav(`/recurring/${result.id}/`);
+    });
+
+    const startNewInvoice = $(() => {
+        invoiceState.draftId = null;
+        invoiceState.customer = null;
+        invoiceState.items = [];
+        invoiceState.discount = null;
+        return nav('/invoices/new/');
+    });
+
+    const changeCustomer = $(() => {
+        invoiceState.customer = null;
+        return nav('/customers/');
+    });
+
+    const fieldErrors: InvoiceFieldErrors = {
+        ...(createRecurringAction.value?.failed ? createRecurringAction.value.fieldErrors : {}),
+        ...(createQuotationAction.value?.failed ? createQuotationAction.value.fieldErrors : {}),
+        ...(createInvoiceAction.value?.failed ? createInvoiceAction.value.fieldErrors : {}),
+    };
+    const placeOfSupply = placeOfSupplyFor(invoiceState.customer, sellerState);
+    const interState = isInterState(sellerState, placeOfSupply);
+    const priced = priceInvoice(invoiceState.items, invoiceState.discount, interState);
+    const { totals } = priced;
+    return <>
+        <h2>{invoiceState.draftId ? `Edit Draft #${invoiceState.draftId}` : 'Create Invoice'}</h2>
+        {invoiceState.draftId && <p>Issued invoices can't be changed, but this draft can be edited until it is issued. <button onClick$={startNewInvoice}>Start a New Invoice Instead</button></p>}
+        {invoiceState.customer ? <div class="customer-info">
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <h3>Customer Information</h3>
+                <button onClick$={changeCustomer} class="danger">Change Customer</button>
+            </div>
+            <p><strong>Name:</strong> {invoiceState.customer.name}</p>
+            <p><strong>Phone:</strong> {invoiceState.customer.phone || 'N/A'}</p>
+            <p><strong>Email:</strong> {invoiceState.customer.email || 'N/A'}</p>
+            <p><strong>Address:</strong> {invoiceState.customer.address || 'N/A'}</p>
+            {invoiceState.customer.gstin && <p><strong>GSTIN:</strong> {invoiceState.customer.gstin}</p>}
+            <p><strong>Place of Supply:</strong> {stateName(placeOfSupply)} ({interState ? 'Inter-state, IGST' : 'Intra-state, CGST + SGST'})</p>
+        </div> : <div class="customer-info"><p>Please select a customer on the <Link href="/customers/">Customers</Link> page first.</p></div>}
+        {fieldErrors.customerId && <p class="field-error">{fieldErrors.customerId}</p>}
+
+        <h3>Invoice Items</h3>
+        <table>
+            <thead><tr><th>Product</th><th>Quantity</th><th>Price</th><th>Discount</th><th>Tax</th><th>Total</th><th>Action</th></tr></thead>
+            <tbody>{invoiceState.items.map((item, index) => {
+                const line = priced.lines[index];
+                return (<tr key={item.id}>
+                    <td>{item.name}</td>
+                    <td><input type="number" value={item.quantity} min="1" style="width: 60px;"
+                        onInput$={(e) => {
+                            const found = invoiceState.items.find(i => i.id === item.id);
+                            if(found) found.quantity = parseInt((e.target as HTMLInputElement).value, 10);
+                        }}/>
+                        {fieldErrors[`items.${index}`] && <p class="field-error">{fieldErrors[`items.${index}`]}</p>}
+                        {item.stock !== null && item.quantity > item.stock && <p class="field-error">Only {item.stock} {item.unit} in stock.</p>}
+                    </td>
+                    <td>{formatMoney(item.price, business)}</td>
+                    <td><DiscountInput discount={item.discount} currency={currencySymbol(business)} onChange$={(discount) => {
+                        const found = invoiceState.items.find(i => i.id === item.id);
+                        if (found) found.discount = discount;
+                    }} /></td>
+                    <td>{item.tax}%</td>
+                    <td>{formatMoney(line.totalAmount, business)}</td>
+                    <td><button onClick$={() => invoiceState.items = invoiceState.items.filter(i => i.id !== item.id)} class="danger">Remove</button></td>
+                </tr>)
+            })}</tbody>
+        </table>
+        {invoiceState.items.length === 0 && <p>Add items from the <Link href="/products/">Products</Link> page.</p>}
+
+        {invoiceState.items.length > 0 && <div class="invoice-summary">
+            <div class="summary-row"><span>Subtotal:</span> <span>{formatMoney(priced.grossAmount, business)}</span></div>
+            {priced.lineDiscountAmount > 0 && <div class="summary-row"><span>Line Discounts:</span> <span>-{formatMoney(priced.lineDiscountAmount, business)}</span></div>}
+            <div class="summary-row">
+                <span>Invoice Discount: <DiscountInput discount={invoiceState.discount} currency={currencySymbol(business)} onChange$={(discount) => { invoiceState.discount = discount }} /></span>
+                <span>{priced.invoiceDiscountAmount > 0 ? `-${formatMoney(priced.invoiceDiscountAmount, business)}` : '-'}</span>
+            </div>
+            {fieldErrors.discount && <p class="field-error">{fieldErrors.discount}</p>}
+            <div class="summary-row"><span>Taxable Amount:</span> <span>{formatMoney(totals.taxableAmount, business)}</span></div>
+            {interState ? (
+                <div class="summary-row"><span>IGST:</span> <span>{formatMoney(totals.igstAmount, business)}</span></div>
+            ) : (<>
+                <div class="summary-row"><span>CGST:</span> <span>{formatMoney(totals.cgstAmount, business)}</span></div>
+                <div class="summary-row"><span>SGST:</span> <span>{formatMoney(totals.sgstAmount, business)}</span></div>
+            </>)}
+            <div class="summary-row total"><span>Total:</span> <span>{formatMoney(totals.totalAmount, business)}</span></div>
+            <div class="summary-row"><span>Payment Due:</span> <span>{business.dueDays ? `${business.dueDays} days after issue` : 'On receipt'}</span></div>
+        </div>}
+
+        {fieldErrors.items && <p class="field-error">{fieldErrors.items}</p>}
+        {(createInvoiceAction.value?.message || createInvoiceAction.value?.error) && (
+            <div class="notification error">{createInvoiceAction.value.message || createInvoiceAction.value.error}</div>
+        )}
+
+        {createQuotationAction.value?.failed && createQuotationAction.value.message && (
+            <div class="notification error">{createQuotationAction.value.message}</div>
+        )}
+        {createRecurringAction.value?.failed && createRecurringAction.value.message && (
+            <div class="notification error">{createRecurringAction.value.message}</div>
+        )}
+
+        {can(user, 'invoices.create') && <Form action={createInvoiceAction} class="actions">
+            <DraftFields draft={invoiceState} />
+            {invoiceState.draftId && <input type="hidden" name="draftId" value={invoiceState.draftId} />}
+            <button type="submit" name="intent" value="draft" disabled={!invoiceState.customer || invoiceState.items.length === 0}>Save as Draft</button>
+            <button type="submit" name="intent" value="issue" disabled={!invoiceState.customer || invoiceState.items.length === 0}>Save & Issue Invoice</button>
+        </Form>}
+        {can(user, 'quotations.create') && !invoiceState.draftId && <Form action={createQuotationAction} class="actions quotation-form">
+            <DraftFields draft={invoiceState} />
+            <label>Quotation valid until:</label>
+            <input name="validUntil" type="date" min={quotationValidity.today} value={quotationValidity.validUntil} required />
+            <button type="submit" disabled={!invoiceState.customer || invoiceState.items.length === 0}>Save as Quotation</button>
+        </Form>}
+        {createQuotationAction.value?.fieldErrors?.validUntil && <p class="field-error">{createQuotationAction.value.fieldErrors.validUntil}</p>}
+        {can(user, 'recurring.manage') && !invoiceState.draftId && <Form action={createRecurringAction} class="actions recurring-form">
+            <DraftFields draft={invoiceState} />
+            <label>Repeat:</label>
+            <select name="frequency">
+                {RECURRING_FREQUENCIES.map(frequency => <option key={frequency} value={frequency} selected={frequency === 'monthly'}>{FREQUENCY_LABELS[frequency]}</option>)}
+            </select>
+            <label>From:</label>
+            <input name="startDate" type="date" min={quotationValidity.today} value={quotationValidity.today} required />
+            <label>Until:</label>
+            <input name="endDate" type="date" min={quotationValidity.today} />
+            <select name="mode">
+                <option value="issue">Issue each invoice</option>
+                <option value="draft">Save each invoice as a draft</option>
+            </select>
+            <button type="submit" disabled={!invoiceState.customer || invoiceState.items.length === 0}>Save as Recurring Invoice</button>
+        </Form>}
+        {createRecurringAction.value?.fieldErrors && (['startDate', 'endDate'] as const).map(field => createRecurringAction.value?.fieldErrors?.[field]
+            && <p key={field} class="field-error">{createRecurringAction.value.fieldErrors[field]}</p>)}
+    </>;
+});
+
+// The customer, items and discount, as posted by the invoice, quotation and recurring invoice forms.
+export const DraftFields = component$<{ draft: InvoiceDraft }>(({ draft }) => (<>
+    <input type="hidden" name="customerId" value={draft.customer?.id} />
+    <input type="hidden" name="itemsJSON" value={JSON.stringify(draft.items.map(item => ({ productId: item.id, quantity: item.quantity, discount: item.discount })))} />
+    {draft.discount && <>
+        <input type="hidden" name="discount.type" value={draft.discount.type} />
+        <input type="hidden" name="discount.value" value={draft.discount.value} />
+    </>}
+</>));
+
+// A percentage or an amount, labelled with the `currency` symbol. Amounts are kept in paise, like every other amount in the draft.
+export const DiscountInput = component$<{ discount: Discount | null | undefined; currency: string; onChange$: QRL<(discount: Discount | null) => void> }>(({ discount, currency, onChange$ }) => (
+    <span class="discount">
+        <select onChange$={(_, select) => onChange$(select.value ? { type: select.value as Discount['type'], value: 0 } : null)}>
+            <option value="" selected={!discount}>None</option>
+            <option value="percent" selected={discount?.type === 'percent'}>%</option>
+            <option value="amount" selected={discount?.type === 'amount'}>{currency}</option>
+        </select>
+        {discount && <input type="number" min="0" step="0.01"
+            value={discount.type === 'amount' ? toRupees(discount.value) : discount.value}
+            onInput$={(_, input) => {
+                const value = Number(input.value) || 0;
+                onChange$({ type: discount.type, value: discount.type === 'amount' ? toPaise(value) : value });
+            }} />}
+    </span>
+));
+
+export const head: DocumentHead = {
+    title: 'New Invoice',
+};
@@ -0,0 +1,160 @@
+import { Slot, component$, useContextProvider, useStore } from '@builder.io/qwik';
+import type { DocumentHead, RequestHandler } from '@builder.io/qwik-city';
+import { Form, Link, routeAction$, routeLoader$, useLocation } from '@builder.io/qwik-city';
+import { InvoiceDraftContext } from '~/components/invoice-draft/invoice-draft';
+import type { InvoiceDraft } from '~/components/invoice-draft/invoice-draft';
+import { Notification, NotificationContext } from '~/components/notification/notification';
+import type { NotificationState } from '~/components/notification/notification';
+import { SESSION_COOKIE, USER_KEY, deleteSession, findSessionUser, sessionUser } from '~/lib/auth';
+import { getBusinessProfile } from '~/lib/business';
+import { ROLE_LABELS, can } from '~/lib/permissions';
+import { startRecurringScheduler } from '~/lib/recurring';
+
+// Every page needs a logged-in user, except the login page itself. The JSON API checks its own API keys.
+// The first request also starts generating recurring invoices, unless RECURRING_SCHEDULER=off leaves that to cron.
+export const onRequest: RequestHandler = ({ cookie, sharedMap, url, env, redirect }) => {
+  if (env.get('RECURRING_SCHEDULER') !== 'off') startRecurringScheduler(env);
+  if (url.pathname.startsWith('/api/')) return;
+  const user = findSessionUser(cookie.get(SESSION_COOKIE)?.value);
+  sharedMap.set(USER_KEY, user);
+  if (!user && !url.pathname.startsWith('/login/')) {
+    throw redirect(302, `/login/?next=${encodeURIComponent(url.pathname + url.search)}`);
+  }
+};
+
+export const useCurrentUserLoader = routeLoader$(({ sharedMap }) => sessionUser(sharedMap));
+
+const LOGO_URL = '/settings/logo/';
+
+// What every page shows of the business: its name and logo, and the currency and locale for amounts. The logo
+// image is served by /settings/logo/ rather than sent with every page.
+export const useBusinessLoader = routeLoader$(({ env }) => {
+  const { name, logo, currency, locale, dueDays } = getBusinessProfile(env);
+  return { name, hasLogo: !!logo, currency, locale, dueDays };
+});
+
+export const useLogoutAction = routeAction$((_, { cookie, redirect }) => {
+  const token = cookie.get(SESSION_COOKIE)?.value;
+  if (token) deleteSession(token);
+  cookie.delete(SESSION_COOKIE, { path: '/' });
+  throw redirect(302, '/login/');
+});
+
+// Shared by every page: header, navigation, notifications and the invoice being put together.
+export default component$(() => {
+  const location = useLocation();
+  const user = useCurrentUserLoader().value;
+  const business = useBusinessLoader().value;
+  const logoutAction = useLogoutAction();
+  const draft = useStore<InvoiceDraft>({ draftId: null, customer: null, items: [], discount: null });
+  const notification = useStore<NotificationState>({ message: '', type: '', visible: false });
+  useContextProvider(InvoiceDraftContext, draft);
+  useContextProvider(NotificationContext, notification);
+
+  const path = location.url.pathname;
+  const tabs = [
+    { href: '/customers/', label: 'Customers', active: path.startsWith('/customers/') },
+    { href: '/products/', label: 'Products', active: path.startsWith('/products/') },
+    { href: '/invoices/new/', label: draft.items.length ? `New Invoice (${draft.items.length})` : 'New Invoice', active: path.startsWith('/invoices/new/') },
+    { href: '/invoices/', label: 'Invoices', active: (path.startsWith('/invoices/') && !path.startsWith('/invoices/new/')) || path.startsWith('/credit-notes/') },
+    { href: '/quotations/', label: 'Quotations', active: path.startsWith('/quotations/') },
+    { href: '/recurring/', label: 'Recurring', active: path.startsWith('/recurring/') },
+    { href: '/reports/', label: 'Reports', active: path.startsWith('/reports/') },
+    { href: '/import-export/', label: 'Import / Export', active: path.startsWith('/import-export/') },
+    ...(can(user, 'settings.manage') ? [{ href: '/settings/', label: 'Settings', active: path.startsWith('/settings/') }] : []),
+    ...(can(user, 'users.manage') ? [{ href: '/users/', label: 'Users', active: path.startsWith('/users/') }] : []),
+    ...(can(user, 'audit.view') ? [{ href: '/audit/', label: 'Audit Log', active: path.startsWith('/audit/') }] : []),
+  ].filter(tab => tab.href !== '/invoices/new/' || can(user, 'invoices.create') || can(user, 'quotations.create'));
+
+  return (
+    <div class="container">
+      <header>
+        {user && business.hasLogo && <img class="logo" src={LOGO_URL} alt="" width={200} height={60} />}
+        <h1>{business.name}</h1>
+      </header>
+      {user && <Form action={logoutAction} class="session">
+        {user.name} ({ROLE_LABELS[user.role]}) <button type="submit">Log Out</button>
+      </Form>}
+      {user && <nav class="tabs">
+        {tabs.map(tab => <Link key={tab.href} href={tab.href} class={['tab', { active: tab.active }]}>{tab.label}</Link>)}
+      </nav>}
+      <Notification />
+      <div class="content-section active">
+        <Slot />
+      </div>
+    </div>
+  );
+});
+
+// --- STYLES & HEAD ---
+// Each page sets its own title; the business name is added after it here, as the layout's head is resolved last.
+export const head: DocumentHead = ({ head, resolveValue }) => ({
+  title: head.title ? `${head.title} - ${resolveValue(useBusinessLoader).name}` : resolveValue(useBusinessLoader).name,
+  styles: [{ style: `
+    * { box-sizing: border-box; margin: 0; padding: 0; font-family: Arial, sans-serif; }
+    body { background-color: #f5f5f5; padding: 20px; line-height: 1.6; color: #333; }
+    .container { max-width: 1000px; margin: 0 auto; background: white; padding: 20px; border-radius: 5px; box-shadow: 0 2px 5px rgba(0,0,0,0.1); }
+    header { text-align: center; margin-bottom: 20px; padding-bottom: 15px; border-bottom: 1px solid #ddd; }
+    img.logo { object-fit: contain; }
+    h1 { color: #2c3e50; margin-bottom: 10px; }
+    .session { display: flex; justify-content: flex-end; align-items: center; gap: 10px; margin-bottom: 10px; }
+    .session button { padding: 5px 10px; margin-right: 0; }
+    .tabs { display: flex; margin-bottom: 20px; border-bottom: 1px solid #ddd; }
+    .tab { padding: 10px 20px; cursor: pointer; background: #f0f0f0; border: 1px solid #ddd; border-bottom: none; margin-right: 5px; border-top-left-radius: 5px; border-top-right-radius: 5px; color: inherit; text-decoration: none; }
+    .tab.active { background: white; border-bottom: 1px solid white; margin-bottom: -1px; font-weight: bold; }
+    .content-section { padding: 20px; border: 1px solid #ddd; border-top: none; }
+    .form-group { margin-bottom: 15px; }
+    label { display: block; margin-bottom: 5px; font-weight: bold; }
+    input, select, textarea { width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px; margin-bottom: 10px; }
+    button { padding: 10px 15px; background: #3498db; color: white; border: none; border-radius: 4px; cursor: pointer; margin-right: 10px; }
+    button:hover { background: #2980b9; }
+    a.button { display: inline-block; padding: 10px 15px; background: #3498db; color: white; border-radius: 4px; margin-right: 10px; text-decoration: none; }
+    a.button:hover { background: #2980b9; }
+    button:disabled { background: #bdc3c7; cursor: not-allowed; }
+    button.danger { background: #e74c3c; }
+    button.danger:hover { background: #c0392b; }
+    table { width: 100%; border-collapse: collapse; margin: 15px 0; }
+    th, td { padding: 10px; text-align: left; border-bottom: 1px solid #ddd; }
+    th { background: #f0f0f0; }
+    .actions { margin-top: 20px; display: flex; justify-content: flex-end; }
+    .row-actions { display: flex; align-items: center; }
+    .filters { display: flex; flex-wrap: wrap; align-items: baseline; gap: 0 10px; margin-bottom: 10px; }
+    .filters input, .filters select { width: auto; flex: 1 1 140px; }
+    .filters label { margin: 0; }
+    th a { color: inherit; text-decoration: none; }
+    .autocomplete { position: relative; }
+    .autocomplete ul { position: absolute; top: 100%; left: 0; right: 0; z-index: 10; margin-top: -10px; list-style: none; background: white; border: 1px solid #ddd; border-radius: 4px; box-shadow: 0 2px 5px rgba(0,0,0,0.1); }
+    .autocomplete li { padding: 8px; cursor: pointer; }
+    .autocomplete li.active, .autocomplete li:hover { background: #eaf2fb; }
+    .autocomplete li.empty { cursor: default; color: #777; }
+    .autocomplete small { color: #777; margin-left: 5px; }
+    .discount { display: flex; gap: 5px; }
+    .discount select, .discount input { width: auto; margin-bottom: 0; }
+    .discount input { width: 80px; }
+    .audit-changes { margin: 5px 0; font-size: 0.9em; }
+    .audit-changes th, .audit-changes td { padding: 4px; word-break: break-all; vertical-align: top; }
+    .quotation-form, .recurring-form { align-items: baseline; flex-wrap: wrap; }
+    .quotation-form label, .quotation-form input, .recurring-form label, .recurring-form input, .recurring-form select { width: auto; margin-right: 10px; }
+    .row-error td { color: #c0392b; }
+    .pagination { display: flex; align-items: center; justify-content: center; gap: 10px; }
+    .customer-info, .invoice-summary, .invoice-detail { background: #f9f9f9; padding: 15px; border-radius: 5px; margin-bottom: 20px; }
+    .summary-row { display: flex; justify-content: space-between; padding: 5px 0; }
+    .total { font-weight: bold; border-top: 1px solid #ddd; padding-top: 10px; }
+    .notification { padding: 10px; border-radius: 4px; margin-bottom: 15px; }
+    .notification.success { background: #d4edda; color: #155724; }
+    .notification.warning { background: #fff3cd; color: #856404; }
+    .notification.error { background: #f8d7da; color: #721c24; }
+    .field-error { color: #c0392b; margin: -5px 0 10px; }
+    .badge { display: inline-block; padding: 2px 8px; border-radius: 10px; font-size: 12px; font-weight: bold; background: #e9ecef; color: #555; }
+    .badge.issued { background: #d6eaf8; color: #1f618d; }
+    .badge.partially_paid { background: #fdebd0; color: #9c640c; }
+    .badge.paid { background: #d4edda; color: #155724; }
+    .badge.cancelled { background: #f8d7da; color: #721c24; }
+    .badge.accepted { background: #d4edda; color: #155724; }
+    .badge.rejected, .badge.expired { background: #f8d7da; color: #721c24; }
+    .badge.converted { background: #d6eaf8; color: #1f618d; }
+    .badge.credit_note { background: #e8daef; color: #6c3483; }
+    .badge.active { background: #d4edda; color: #155724; }
+    .badge.paused { background: #fdebd0; color: #9c640c; }
+  `}],
+});
@@ -0,0 +1,74 @@
+import { component$ } from '@builder.io/qwik';
+import type { Cookie, DocumentHead } from '@builder.io/qwik-city';
+import { Form, routeAction$, routeLoader$, useLocation, z, zod$ } from '@builder.io/qwik-city';
+import { SESSION_COOKIE, authenticate, createSession, createUser, hasUsers, isUsernameTaken, loginInputSchema, safeNext, sessionActor, sessionUser, userInputSchema } from '~/lib/auth';
+
+// Until the first account exists, this page creates it as an admin instead of logging in.
+export const useLoginStateLoader = routeLoader$(({ sharedMap, url, redirect }) => {
+  if (sessionUser(sharedMap)) throw redirect(302, safeNext(url.searchParams.get('next')));
+  return { setup: !hasUsers() };
+});
+
+const startSession = (cookie: Cookie, userId: number, secure: boolean) => {
+  const { token, expiresAt } = createSession(userId);
+  cookie.set(SESSION_COOKIE, token, { path: '/', httpOnly: true, sameSite: 'lax', secure, expires: expiresAt });
+};
+
+export const useLoginAction = routeAction$((data, { cookie, url, redirect, fail }) => {
+  const user = authenticate(data.username, data.password);
+  if (!user) return fail(401, { message: 'Incorrect username or password.' });
+  startSession(cookie, user.id, url.protocol === 'https:');
+  throw redirect(302, safeNext(data.next));
+}, zod$(loginInputSchema.extend({ next: z.string().optional() })));
+
+export const useSetupAction = routeAction$((data, { cookie, url, sharedMap, redirect, fail }) => {
+  if (hasUsers()) return fail(409, { message: 'An admin account already exists. Log in instead.' });
+  if (isUsernameTaken(data.username)) return fail(400, { message: 'Please correct the highlighted fields.', fieldErrors: { username: 'This username is taken.' } });
+  startSession(cookie, createUser({ ...data, role: 'admin' }, sessionActor(sharedMap)), url.protocol === 'https:');
+  throw redirect(302, '/');
+}, zod$(userInputSchema.omit({ role: true })));
+
+export default component$(() => {
+    const state = useLoginStateLoader().value;
+    const loginAction = useLoginAction();
+    const setupAction = useSetupAction();
+    const location = useLocation();
+
+    if (state.setup) {
+        const errors = setupAction.value?.fieldErrors;
+        return (<>
+            <h2>Create the Admin Account</h2>
+            <p>There are no user accounts yet. This first account is an admin, who can then add the others.</p>
+            <Form action={setupAction} class="form-group">
+                <label>Name:</label>
+                <input type="text" name="name" required />
+                {errors?.name && <p class="field-error">{errors.name}</p>}
+                <label>Username:</label>
+                <input type="text" name="username" required autoComplete="username" />
+                {errors?.username && <p class="field-error">{errors.username}</p>}
+                <label>Password:</label>
+                <input type="password" name="password" required autoComplete="new-password" />
+                {errors?.password && <p class="field-error">{errors.password}</p>}
+                {setupAction.value?.message && <div class="notification error">{setupAction.value.message}</div>}
+                <button type="submit">Create Account</button>
+            </Form>
+        </>);
+    }
+
+    return (<>
+        <h2>Log In</h2>
+        <Form action={loginAction} class="form-group">
+            <input type="hidden" name="next" value={location.url.searchParams.get('next') ?? ''} />
+            <label>Username:</label>
+            <input type="text" name="username" required autoComplete="username" />
+            <label>Password:</label>
+            <input type="password" name="password" required autoComplete="current-password" />
+            {loginAction.value?.message && <div class="notification error">{loginAction.value.message}</div>}
+            <button type="submit">Log In</button>
+        </Form>
+    </>);
+});
+
+export const head: DocumentHead = {
+    title: 'Log In',
+};
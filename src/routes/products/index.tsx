@@ -0,0 +1,198 @@
+import { $, component$, useContext, useSignal, useTask$ } from '@builder.io/qwik';
+import type { DocumentHead } from '@builder.io/qwik-city';
+import { Form, routeAction$, routeLoader$, z, zod$ } from '@builder.io/qwik-city';
+import { InvoiceDraftContext } from '~/components/invoice-draft/invoice-draft';
+import { useNotify } from '~/components/notification/notification';
+import { sessionActor, sessionUser } from '~/lib/auth';
+import { isForeignKeyError } from '~/lib/db';
+import { currencySymbol, formatMoney, toRupees } from '~/lib/money';
+import { FORBIDDEN_MESSAGE, can } from '~/lib/permissions';
+import { createProduct, listProducts, newProductInputSchema, productFieldErrors, productInputSchema, removeProduct, restoreProduct, toProductFields, updateProduct } from '~/lib/products';
+import { StockError, adjustStock, lowStockProducts } from '~/lib/stock';
+import type { Product } from '~/lib/types';
+import { useBusinessLoader, useCurrentUserLoader } from '~/routes/layout';
+
+export const useProductsLoader = routeLoader$(() => listProducts());
+export const useLowStockLoader = routeLoader$(() => lowStockProducts());
+
+export const useAddProductAction = routeAction$((data, { sharedMap, fail }) => {
+    if (!can(sessionUser(sharedMap), 'products.edit')) return fail(403, { message: FORBIDDEN_MESSAGE });
+    const fields = toProductFields(data);
+    const fieldErrors = productFieldErrors(fields);
+    if (Object.keys(fieldErrors).length) return fail(400, { message: 'Please correct the highlighted fields.', fieldErrors });
+    return { success: true, id: createProduct(fields, data.openingStock, sessionActor(sharedMap)) };
+}, zod$(newProductInputSchema));
+
+export const useUpdateProductAction = routeAction$((data, { sharedMap, fail }) => {
+    if (!can(sessionUser(sharedMap), 'products.edit')) return fail(403, { message: FORBIDDEN_MESSAGE });
+    const fields = toProductFields(data);
+    const fieldErrors = productFieldErrors(fields, data.id);
+    if (Object.keys(fieldErrors).length) return fail(400, { message: 'Please correct the highlighted fields.', fieldErrors });
+    if (!updateProduct(data.id, fields, sessionActor(sharedMap))) return fail(404, { message: 'Product not found.' });
+    return { success: true };
+}, zod$(productInputSchema.extend({ id: z.coerce.number().int().positive() })));
+
+// `remove` deletes a product, or archives it if it has been sold; `restore` makes an archived product available again.
+export const useArchiveProductAction = routeAction$((data, { sharedMap, fail }) => {
+    if (!can(sessionUser(sharedMap), 'products.edit')) return fail(403, { message: FORBIDDEN_MESSAGE });
+    if (data.intent === 'restore') {
+        return restoreProduct(data.id, sessionActor(sharedMap)) ? { success: true, message: 'Product restored.' } : fail(404, { message: 'Product not found.' });
+    }
+    try {
+        const result = removeProduct(data.id, sessionActor(sharedMap));
+        if (!result) return fail(404, { message: 'Product not found.' });
+        return { success: true, message: result === 'deleted' ? 'Product deleted.' : 'Product archived. It stays on past invoices.' };
+    } catch (error) {
+        if (isForeignKeyError(error)) return fail(409, { message: 'The product is still in use, so it cannot be deleted.' });
+        console.error("Removing product failed:", error);
+        return fail(500, { message: 'Failed to remove product.' });
+    }
+}, zod$({ id: z.coerce.number().int().positive(), intent: z.enum(['remove', 'restore']) }));
+
+// Returns and counting corrections. A negative quantity takes stock away.
+export const useAdjustStockAction = routeAction$((data, { sharedMap, fail }) => {
+    if (!can(sessionUser(sharedMap), 'stock.adjust')) return fail(403, { message: FORBIDDEN_MESSAGE });
+    try {
+        const stock = adjustStock(data.id, { quantity: data.quantity, reason: data.reason, note: data.note }, sessionActor(sharedMap));
+        if (stock === null) return fail(404, { message: 'Product not found.' });
+        return { success: true, stock };
+    } catch (error) {
+        if (error instanceof StockError) return fail(409, { message: error.message });
+        console.error("Adjusting stock failed:", error);
+        return fail(500, { message: 'Failed to adjust stock.' });
+    }
+}, zod$({
+    id: z.coerce.number().int().positive(),
+    quantity: z.coerce.number().int('Enter a whole number').refine(quantity => quantity !== 0, 'Enter the quantity to add or remove.'),
+    reason: z.enum(['return', 'correction']),
+    note: z.string().trim().max(200).optional(),
+}));
+
+export default component$(() => {
+    const products = useProductsLoader();
+    const lowStock = useLowStockLoader();
+    const user = useCurrentUserLoader().value;
+    const business = useBusinessLoader().value;
+    const addProductAction = useAddProductAction();
+    const updateProductAction = useUpdateProductAction();
+    const archiveProductAction = useArchiveProductAction();
+    const adjustStockAction = useAdjustStockAction();
+    const draft = useContext(InvoiceDraftContext);
+    const notify = useNotify();
+    const editingId = useSignal<number | null>(null);
+    const adjustingId = useSignal<number | null>(null);
+    const editing = products.value.find(p => p.id === editingId.value);
+    const adjusting = products.value.find(p => p.id === adjustingId.value);
+
+    // Close the edit and adjustment forms once the changes are saved.
+    useTask$(({ track }) => {
+        track(() => updateProductAction.value);
+        if (updateProductAction.value?.success) editingId.value = null;
+    });
+    useTask$(({ track }) => {
+        track(() => adjustStockAction.value);
+        if (adjustStockAction.value?.success) adjustingId.value = null;
+    });
+
+    const addToInvoice = $((product: Product) => {
+        const existingItem = draft.items.find(item => item.id === product.id);
+        if (existingItem) existingItem.quantity++;
+        else draft.items.push({ ...product, quantity: 1 });
+        notify(`Added "${product.name}" to invoice.`, 'success');
+    });
+
+    return (<>
+        <h2>Product Management</h2>
+        {lowStock.value.length > 0 && <div class="customer-info">
+            <h3>Low Stock</h3>
+            <table>
+                <thead><tr><th>Product</th><th>SKU</th><th>In Stock</th><th>Low Stock Level</th></tr></thead>
+                <tbody>{lowStock.value.map(p => (<tr key={p.id}>
+                    <td>{p.name}</td>
+                    <td>{p.sku ?? '-'}</td>
+                    <td>{`${p.stock} ${p.unit}`}</td>
+                    <td>{p.lowStockLevel ?? '-'}</td>
+                </tr>))}</tbody>
+            </table>
+        </div>}
+        {adjusting ? <>
+            <h3>Adjust Stock: {adjusting.name}</h3>
+            <p>In stock: {adjusting.stock === null ? 'not tracked yet, counting starts from zero' : `${adjusting.stock} ${adjusting.unit}`}</p>
+            {adjustStockAction.value?.failed && adjustStockAction.value.message && <div class="notification error">{adjustStockAction.value.message}</div>}
+            <Form key={adjusting.id} action={adjustStockAction} class="form-group">
+                <input type="hidden" name="id" value={adjusting.id} />
+                <label>Quantity (negative to remove):</label> <input name="quantity" type="number" step="1" required />
+                {adjustStockAction.value?.fieldErrors?.quantity && <p class="field-error">{adjustStockAction.value.fieldErrors.quantity}</p>}
+                <label>Reason:</label>
+                <select name="reason">
+                    <option value="return">Customer return</option>
+                    <option value="correction">Stock count correction</option>
+                </select>
+                <label>Note:</label> <input name="note" placeholder="e.g. Invoice number or count sheet" />
+                <button type="submit">Save Adjustment</button>
+                <button type="button" onClick$={() => adjustingId.value = null}>Cancel</button>
+            </Form>
+        </> : editing ? <>
+            <h3>Edit Product</h3>
+            <p>Saved invoices keep the product details they were issued with.</p>
+            <Form key={editing.id} action={updateProductAction} class="form-group">
+                <input type="hidden" name="id" value={editing.id} />
+                <ProductFields currency={currencySymbol(business)} product={editing} action={updateProductAction} />
+                <button type="submit">Save Changes</button>
+                <button type="button" onClick$={() => editingId.value = null}>Cancel</button>
+            </Form>
+        </> : can(user, 'products.edit') && <>
+            <h3>Add New Product</h3>
+            <Form action={addProductAction} class="form-group">
+                <ProductFields currency={currencySymbol(business)} action={addProductAction} />
+                <label>Opening Stock:</label> <input name="openingStock" type="number" step="1" min="0" placeholder="Leave blank if stock isn't tracked" />
+                {addProductAction.value?.fieldErrors?.openingStock && <p class="field-error">{addProductAction.value.fieldErrors.openingStock}</p>}
+                <button type="submit">Add Product</button>
+            </Form>
+        </>}
+        <h3>Product List</h3>
+        {archiveProductAction.value?.message && <div class={`notification ${archiveProductAction.value.failed ? 'error' : 'success'}`}>{archiveProductAction.value.message}</div>}
+        <table>
+            <thead><tr><th>Name</th><th>SKU</th><th>HSN/SAC</th><th>Unit</th><th>Price</th><th>Tax</th><th>Stock</th><th>Action</th></tr></thead>
+            <tbody>{products.value.map(p => (<tr key={p.id}>
+                <td>{p.name} {p.archivedAt && <span class="badge">Archived</span>}</td>
+                <td>{p.sku ?? '-'}</td>
+                <td>{p.hsnCode ?? '-'}</td>
+                <td>{p.unit}</td>
+                <td>{formatMoney(p.price, business)}</td>
+                <td>{p.tax}%</td>
+                <td>{p.stock ?? '-'} {p.stock !== null && p.stock <= (p.lowStockLevel ?? 0) && <span class="badge cancelled">Low</span>}</td>
+                <td class="row-actions">
+                    {!p.archivedAt && can(user, 'invoices.create') && <button onClick$={() => addToInvoice(p)}>Add to Invoice</button>}
+                    {can(user, 'products.edit') && <button onClick$={() => { editingId.value = p.id; adjustingId.value = null }}>Edit</button>}
+                    {can(user, 'stock.adjust') && <button onClick$={() => { adjustingId.value = p.id; editingId.value = null }}>Adjust Stock</button>}
+                    {can(user, 'products.edit') && <Form action={archiveProductAction}>
+                        <input type="hidden" name="id" value={p.id} />
+                        {p.archivedAt
+                            ? <button type="submit" name="intent" value="restore">Restore</button>
+                            : <button type="submit" name="intent" value="remove" class="danger">Remove</button>}
+                    </Form>}
+                </td>
+            </tr>))}</tbody>
+        </table>
+    </>);
+});
+
+// The inputs shared by the add and edit product forms.
+export const ProductFields = component$<{ product?: Product; currency: string; action: any }>(({ product, currency, action }) => (<>
+    <label>Product Name:</label> <input name="name" value={product?.name} required />
+    <label>Description:</label> <input name="description" value={product?.description ?? ''} />
+    <label>SKU:</label> <input name="sku" value={product?.sku ?? ''} />
+    {action.value?.fieldErrors?.sku && <p class="field-error">{action.value.fieldErrors.sku}</p>}
+    <label>HSN/SAC Code:</label> <input name="hsnCode" value={product?.hsnCode ?? ''} />
+    {action.value?.fieldErrors?.hsnCode && <p class="field-error">{action.value.fieldErrors.hsnCode}</p>}
+    <label>Unit:</label> <input name="unit" value={product?.unit ?? 'NOS'} placeholder="NOS, KGS, MTR, LTR..." required />
+    <label>Price ({currency}):</label> <input name="price" type="number" step="0.01" value={product && toRupees(product.price).toFixed(2)} required />
+    <label>GST Rate (%):</label> <input name="tax" type="number" step="0.1" value={product?.tax} required />
+    <label>Low Stock Level:</label> <input name="lowStockLevel" type="number" step="1" min="0" value={product?.lowStockLevel ?? ''} placeholder="Warn when stock falls to this level" />
+    {action.value?.fieldErrors?.lowStockLevel && <p class="field-error">{action.value.fieldErrors.lowStockLevel}</p>}
+</>));
+
+export const head: DocumentHead = {
+    title: 'Products',
+};
@@ -0,0 +1,132 @@
+import { component$, isBrowser, useTask$ } from '@builder.io/qwik';
+import type { DocumentHead } from '@builder.io/qwik-city';
+import { Form, Link, routeAction$, routeLoader$, useNavigate, z, zod$ } from '@builder.io/qwik-city';
+import { useNotify } from '~/components/notification/notification';
+import { sessionActor, sessionUser } from '~/lib/auth';
+import { getBusinessProfile } from '~/lib/business';
+import { currentDate } from '~/lib/dates';
+import { stateName } from '~/lib/gst';
+import { invoiceLabel } from '~/lib/invoice-status';
+import { InvoiceError } from '~/lib/invoices';
+import { formatMoney, savedLine } from '~/lib/money';
+import { FORBIDDEN_MESSAGE, can } from '~/lib/permissions';
+import { QUOTATION_STATUS_LABELS, canAccept, canConvert, canReject, isExpired } from '~/lib/quotation-status';
+import { QuotationError, convertQuotation, findQuotation, quotationPriceChanges, respondToQuotation } from '~/lib/quotations';
+import { useBusinessLoader, useCurrentUserLoader } from '~/routes/layout';
+
+export const useQuotationLoader = routeLoader$(({ params, env, error }) => {
+  const quotation = findQuotation(Number(params.id));
+  if (!quotation) throw error(404, 'Quotation not found');
+  const today = currentDate();
+  return { quotation, today, priceChanges: canConvert(quotation, today) ? quotationPriceChanges(quotation, getBusinessProfile(env)) : [] };
+});
+
+export const useRespondAction = routeAction$((data, { params, sharedMap, fail }) => {
+  if (!can(sessionUser(sharedMap), 'quotations.create')) return fail(403, { message: FORBIDDEN_MESSAGE });
+  try {
+    respondToQuotation(Number(params.id), data.response, sessionActor(sharedMap));
+    return { success: true };
+  } catch (error) {
+    if (error instanceof QuotationError) return fail(409, { message: error.message });
+    console.error("Updating quotation failed:", error);
+    return fail(500, { message: 'Failed to update quotation.' });
+  }
+}, zod$({ response: z.enum(['accepted', 'rejected']) }));
+
+// `intent` issues the invoice straight away or saves it as a draft, as on the new invoice page.
+export const useConvertAction = routeAction$((data, { params, env, sharedMap, fail }) => {
+  if (!can(sessionUser(sharedMap), 'invoices.create')) return fail(403, { message: FORBIDDEN_MESSAGE });
+  try {
+    return { success: true, ...convertQuotation(Number(params.id), data.intent === 'issue', getBusinessProfile(env), sessionActor(sharedMap)) };
+  } catch (error) {
+    if (error instanceof QuotationError || error instanceof InvoiceError) return fail(409, { message: error.message });
+    console.error("Converting quotation failed:", error);
+    return fail(500, { message: 'Failed to convert quotation.' });
+  }
+}, zod$({ intent: z.enum(['draft', 'issue']) }));
+
+export default component$(() => {
+    const detail = useQuotationLoader().value;
+    const user = useCurrentUserLoader().value;
+    const business = useBusinessLoader().value;
+    const respondAction = useRespondAction();
+    const convertAction = useConvertAction();
+    const notify = useNotify();
+    const nav = useNavigate();
+
+    // Show the new invoice once it has been made.
+    useTask$(({ track }) => {
+        const result = track(() => convertAction.value);
+        if (!result?.success || !('id' in result)) return;
+        const stockWarnings = result.stockWarnings ?? [];
+        if (stockWarnings.length) notify(`Invoice ${result.invoiceNumber} issued with insufficient stock: ${stockWarnings.join(', ')}.`, 'warning');
+        else notify(result.invoiceNumber ? `Invoice ${result.invoiceNumber} issued successfully!` : 'Draft invoice saved.', 'success');
+        if (isBrowser) nav(`/invoices/${result.id}/`);
+    });
+
+    const quotation = detail.quotation;
+    const expired = isExpired(quotation, detail.today);
+    const lineDiscounts = quotation.items.reduce((sum, item) => sum + item.discountAmount, 0);
+    const actionError = [respondAction.value, convertAction.value].map(result => result?.failed && result.message).find(Boolean);
+    return <>
+        {actionError && <div class="notification error">{actionError}</div>}
+        <Link class="button" href="/quotations/">← Back to Quotations</Link>
+        <div class="invoice-detail">
+            <h3>
+                Quotation {quotation.quotationNumber} <span class={`badge ${quotation.status}`}>{QUOTATION_STATUS_LABELS[quotation.status]}</span>
+                {expired && <> <span class="badge expired">Expired</span></>}
+            </h3>
+            <p><strong>Customer:</strong> <Link href={`/customers/${quotation.customerId}/`}>{quotation.customerName}</Link></p>
+            <p><strong>Date:</strong> {new Date(quotation.createdAt).toLocaleDateString(business.locale)}</p>
+            <p><strong>Valid Until:</strong> {quotation.validUntil}</p>
+            <p><strong>Place of Supply:</strong> {stateName(quotation.placeOfSupply)}</p>
+            {quotation.createdByName && <p><strong>Created By:</strong> {quotation.createdByName}</p>}
+            {quotation.invoiceId && <p><strong>Invoice:</strong> <Link href={`/invoices/${quotation.invoiceId}/`}>{invoiceLabel({ id: quotation.invoiceId, invoiceNumber: quotation.invoiceNumber })}</Link></p>}
+            <h4>Items</h4>
+            <table>
+                <thead><tr><th>Product</th><th>HSN/SAC</th><th>Qty</th><th>Price</th><th>Discount</th><th>Tax</th><th>CGST</th><th>SGST</th><th>IGST</th><th>Total</th></tr></thead>
+                <tbody>{quotation.items.map(item => {
+                    const line = savedLine(item.taxableAmount, item);
+                    const discount = item.discountAmount + item.invoiceDiscountAmount;
+                    return (<tr key={item.itemId}>
+                        <td>{item.name}</td><td>{item.hsnCode ?? '-'}</td><td>{`${item.quantity} ${item.unit}`}</td><td>{formatMoney(item.price, business)}</td>
+                        <td>{discount > 0 ? formatMoney(discount, business) : '-'}{item.discountPercent !== null && ` (${item.discountPercent}%)`}</td><td>{item.tax}%</td>
+                        <td>{formatMoney(item.cgstAmount, business)}</td><td>{formatMoney(item.sgstAmount, business)}</td><td>{formatMoney(item.igstAmount, business)}</td>
+                        <td>{formatMoney(line.totalAmount, business)}</td>
+                    </tr>)
+                })}</tbody>
+            </table>
+            <div class="invoice-summary">
+                {lineDiscounts + quotation.discountAmount > 0 && <>
+                    <div class="summary-row"><span>Subtotal:</span> <span>{formatMoney(quotation.taxableAmount + lineDiscounts + quotation.discountAmount, business)}</span></div>
+                    {lineDiscounts > 0 && <div class="summary-row"><span>Line Discounts:</span> <span>-{formatMoney(lineDiscounts, business)}</span></div>}
+                    {quotation.discountAmount > 0 && <div class="summary-row"><span>Discount{quotation.discountPercent !== null && ` (${quotation.discountPercent}%)`}:</span> <span>-{formatMoney(quotation.discountAmount, business)}</span></div>}
+                </>}
+                <div class="summary-row"><span>Taxable Amount:</span> <span>{formatMoney(quotation.taxableAmount, business)}</span></div>
+                {quotation.cgstAmount > 0 && <div class="summary-row"><span>CGST:</span> <span>{formatMoney(quotation.cgstAmount, business)}</span></div>}
+                {quotation.sgstAmount > 0 && <div class="summary-row"><span>SGST:</span> <span>{formatMoney(quotation.sgstAmount, business)}</span></div>}
+                {quotation.igstAmount > 0 && <div class="summary-row"><span>IGST:</span> <span>{formatMoney(quotation.igstAmount, business)}</span></div>}
+                <div class="summary-row total"><span>Grand Total:</span> <span>{formatMoney(quotation.totalAmount, business)}</span></div>
+            </div>
+
+            {(canAccept(quotation, detail.today) || canReject(quotation)) && can(user, 'quotations.create') && <Form action={respondAction} class="actions">
+                {canAccept(quotation, detail.today) && <button type="submit" name="response" value="accepted">Mark Accepted</button>}
+                <button type="submit" name="response" value="rejected" class="danger">Mark Rejected</button>
+            </Form>}
+            {canConvert(quotation, detail.today) && can(user, 'invoices.create') && <Form action={convertAction} class="form-group">
+                <h4>Convert to Invoice</h4>
+                <p>The invoice is priced at today's prices and tax rates, with the quoted quantities and discounts.</p>
+                {detail.priceChanges.length > 0 && <div class="notification warning">
+                    Changed since this quotation was made:
+                    <ul>{detail.priceChanges.map(change => <li key={change.itemId}>{change.name}: {change.changes.join(', ')}</li>)}</ul>
+                </div>}
+                <button type="submit" name="intent" value="draft">Convert to Draft</button>
+                <button type="submit" name="intent" value="issue">Convert & Issue Invoice</button>
+            </Form>}
+        </div>
+    </>;
+});
+
+export const head: DocumentHead = ({ resolveValue }) => ({
+    title: `Quotation ${resolveValue(useQuotationLoader).quotation.quotationNumber}`,
+});
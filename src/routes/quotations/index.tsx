@@ -0,0 +1,53 @@
+import { component$ } from '@builder.io/qwik';
+import type { DocumentHead } from '@builder.io/qwik-city';
+import { Link, routeLoader$, useLocation, useNavigate } from '@builder.io/qwik-city';
+import { currentDate } from '~/lib/dates';
+import { formatMoney } from '~/lib/money';
+import { QUOTATION_STATUS_LABELS, isExpired } from '~/lib/quotation-status';
+import { listQuotations } from '~/lib/quotations';
+import type { QuotationStatus } from '~/lib/types';
+import { useBusinessLoader } from '~/routes/layout';
+
+export const useQuotationsLoader = routeLoader$(({ url }) => {
+  const status = Object.keys(QUOTATION_STATUS_LABELS).find(s => s === url.searchParams.get('status')) as QuotationStatus | undefined;
+  return { status, today: currentDate(), quotations: listQuotations(status) };
+});
+
+export default component$(() => {
+    const list = useQuotationsLoader().value;
+    const business = useBusinessLoader().value;
+    const location = useLocation();
+    const nav = useNavigate();
+    return <>
+        <h2>Quotations</h2>
+        <p>Quotations are made on the <Link href="/invoices/new/">New Invoice</Link> page, and converted into invoices from here.</p>
+        <form class="filters" preventdefault:submit onSubmit$={(_, form) => {
+            const status = new FormData(form).get('status');
+            nav(status ? `${location.url.pathname}?status=${status}` : location.url.pathname);
+        }}>
+            <select name="status">
+                <option value="">All statuses</option>
+                {Object.entries(QUOTATION_STATUS_LABELS).map(([status, label]) => <option key={status} value={status} selected={list.status === status}>{label}</option>)}
+            </select>
+            <button type="submit">Filter</button>
+        </form>
+        <table>
+            <thead><tr><th>Quotation No</th><th>Date</th><th>Customer</th><th>Valid Until</th><th>Total</th><th>Status</th></tr></thead>
+            <tbody>{list.quotations.map(quotation => (<tr key={quotation.id}>
+                <td><Link href={`/quotations/${quotation.id}/`}>{quotation.quotationNumber}</Link></td>
+                <td>{new Date(quotation.createdAt).toLocaleDateString(business.locale)}</td>
+                <td>{quotation.customerName}</td>
+                <td>{quotation.validUntil}</td>
+                <td>{formatMoney(quotation.totalAmount, business)}</td>
+                <td>{isExpired(quotation, list.today)
+                    ? <span class="badge expired">Expired</span>
+                    : <span class={`badge ${quotation.status}`}>{QUOTATION_STATUS_LABELS[quotation.status]}</span>}</td>
+            </tr>))}</tbody>
+        </table>
+        {list.quotations.length === 0 && <p>No quotations found.</p>}
+    </>;
+});
+
+export const head: DocumentHead = {
+    title: 'Quotations',
+};
@@ -0,0 +1,84 @@
+import { component$ } from '@builder.io/qwik';
+import type { DocumentHead } from '@builder.io/qwik-city';
+import { Form, Link, routeAction$, routeLoader$, z, zod$ } from '@builder.io/qwik-city';
+import { sessionActor, sessionUser } from '~/lib/auth';
+import { invoiceLabel } from '~/lib/invoice-status';
+import { formatMoney } from '~/lib/money';
+import { FORBIDDEN_MESSAGE, can } from '~/lib/permissions';
+import { RecurringInvoiceError, findRecurringInvoice, recurringRuns, setRecurringPaused } from '~/lib/recurring';
+import { FREQUENCY_LABELS, RECURRING_STATUS_LABELS, recurringStatus } from '~/lib/recurring-schedule';
+import { useBusinessLoader, useCurrentUserLoader } from '~/routes/layout';
+
+export const useRecurringInvoiceLoader = routeLoader$(({ params, error }) => {
+  const template = findRecurringInvoice(Number(params.id));
+  if (!template) throw error(404, 'Recurring invoice not found');
+  return { template, runs: recurringRuns(template.id) };
+});
+
+export const usePauseAction = routeAction$((data, { params, sharedMap, fail }) => {
+  if (!can(sessionUser(sharedMap), 'recurring.manage')) return fail(403, { message: FORBIDDEN_MESSAGE });
+  try {
+    setRecurringPaused(Number(params.id), data.intent === 'pause', sessionActor(sharedMap));
+    return { success: true };
+  } catch (error) {
+    if (error instanceof RecurringInvoiceError) return fail(409, { message: error.message });
+    console.error("Updating recurring invoice failed:", error);
+    return fail(500, { message: 'Failed to update recurring invoice.' });
+  }
+}, zod$({ intent: z.enum(['pause', 'resume']) }));
+
+export default component$(() => {
+    const detail = useRecurringInvoiceLoader().value;
+    const user = useCurrentUserLoader().value;
+    const business = useBusinessLoader().value;
+    const pauseAction = usePauseAction();
+
+    const { template, runs } = detail;
+    const status = recurringStatus(template);
+    return <>
+        {pauseAction.value?.failed && <div class="notification error">{pauseAction.value.message}</div>}
+        <Link class="button" href="/recurring/">← Back to Recurring Invoices</Link>
+        <div class="invoice-detail">
+            <h3>Recurring Invoice #{template.id} <span class={`badge ${status}`}>{RECURRING_STATUS_LABELS[status]}</span></h3>
+            {template.lastError && <div class="notification error">The invoice due on {template.nextRunDate} could not be generated: {template.lastError} It is tried again on every run.</div>}
+            <p><strong>Customer:</strong> <Link href={`/customers/${template.customerId}/`}>{template.customerName}</Link></p>
+            <p><strong>Repeats:</strong> {FREQUENCY_LABELS[template.frequency]}, from {template.startDate} {template.endDate ? `until ${template.endDate}` : 'with no end date'}</p>
+            <p><strong>Next Invoice:</strong> {template.nextRunDate ?? 'None, the schedule has ended'}</p>
+            <p><strong>Invoices Are:</strong> {template.issue ? 'Issued when generated' : 'Saved as drafts to be checked and issued'}</p>
+            {(template.discountPercent !== null || template.discountAmount > 0) && <p><strong>Invoice Discount:</strong> {template.discountPercent !== null ? `${template.discountPercent}%` : formatMoney(template.discountAmount, business)}</p>}
+            <h4>Items</h4>
+            <p>Invoices are priced at the products' prices and tax rates on the day they are generated.</p>
+            <table>
+                <thead><tr><th>Product</th><th>Qty</th><th>Current Price</th><th>Discount</th><th>Tax</th></tr></thead>
+                <tbody>{template.items.map(item => (<tr key={item.id} class={{ 'row-error': !!item.archivedAt }}>
+                    <td>{item.name}{item.archivedAt && ' (archived)'}</td>
+                    <td>{`${item.quantity} ${item.unit}`}</td>
+                    <td>{formatMoney(item.price, business)}</td>
+                    <td>{item.discountPercent !== null ? `${item.discountPercent}%` : item.discountAmount > 0 ? formatMoney(item.discountAmount, business) : '-'}</td>
+                    <td>{item.tax}%</td>
+                </tr>))}</tbody>
+            </table>
+
+            <h4>Generated Invoices</h4>
+            {runs.length ? <table>
+                <thead><tr><th>Run Date</th><th>Invoice</th><th>Total</th><th>Generated</th></tr></thead>
+                <tbody>{runs.map(run => (<tr key={run.period}>
+                    <td>{run.period}</td>
+                    <td><Link href={`/invoices/${run.invoiceId}/`}>{invoiceLabel({ id: run.invoiceId, invoiceNumber: run.invoiceNumber })}</Link></td>
+                    <td>{formatMoney(run.totalAmount, business)}</td>
+                    <td>{new Date(run.createdAt).toLocaleString(business.locale)}</td>
+                </tr>))}</tbody>
+            </table> : <p>No invoices generated yet.</p>}
+
+            {status !== 'ended' && can(user, 'recurring.manage') && <Form action={pauseAction} class="actions">
+                {status === 'paused'
+                    ? <button type="submit" name="intent" value="resume">Resume</button>
+                    : <button type="submit" name="intent" value="pause" class="danger">Pause</button>}
+            </Form>}
+        </div>
+    </>;
+});
+
+export const head: DocumentHead = ({ resolveValue }) => ({
+    title: `Recurring Invoice #${resolveValue(useRecurringInvoiceLoader).template.id}`,
+});
@@ -0,0 +1,69 @@
+import { component$, useTask$ } from '@builder.io/qwik';
+import type { DocumentHead } from '@builder.io/qwik-city';
+import { Form, Link, routeAction$, routeLoader$ } from '@builder.io/qwik-city';
+import { useNotify } from '~/components/notification/notification';
+import { sessionUser } from '~/lib/auth';
+import { getBusinessProfile } from '~/lib/business';
+import { FORBIDDEN_MESSAGE, can } from '~/lib/permissions';
+import { generateDueInvoices, listRecurringInvoices } from '~/lib/recurring';
+import { FREQUENCY_LABELS, RECURRING_STATUS_LABELS, recurringStatus } from '~/lib/recurring-schedule';
+import { useCurrentUserLoader } from '~/routes/layout';
+
+export const useRecurringInvoicesLoader = routeLoader$(() => listRecurringInvoices());
+
+// Generates what is due now instead of waiting for the scheduler.
+export const useGenerateAction = routeAction$((_, { env, sharedMap, fail }) => {
+  if (!can(sessionUser(sharedMap), 'recurring.manage')) return fail(403, { message: FORBIDDEN_MESSAGE });
+  try {
+    const { created, failed } = generateDueInvoices(getBusinessProfile(env));
+    return { success: true, generated: created.length, errors: failed.length };
+  } catch (error) {
+    console.error("Generating recurring invoices failed:", error);
+    return fail(500, { message: 'Failed to generate recurring invoices.' });
+  }
+});
+
+export default component$(() => {
+    const templates = useRecurringInvoicesLoader();
+    const user = useCurrentUserLoader().value;
+    const generateAction = useGenerateAction();
+    const notify = useNotify();
+
+    useTask$(({ track }) => {
+        const result = track(() => generateAction.value);
+        if (result?.failed) notify(result.message ?? 'Failed to generate recurring invoices.', 'error');
+        else if (result?.success) {
+            notify(`${result.generated} invoice(s) generated${result.errors ? `; ${result.errors} recurring invoice(s) failed` : ''}.`, result.errors ? 'warning' : 'success');
+        }
+    });
+
+    return <>
+        <h2>Recurring Invoices</h2>
+        <p>
+            Recurring invoices are set up on the <Link href="/invoices/new/">New Invoice</Link> page. Each invoice is generated on its run date,
+            at the products' prices of the day.
+        </p>
+        {can(user, 'recurring.manage') && <Form action={generateAction} class="row-actions">
+            <button type="submit">Generate Due Invoices Now</button>
+        </Form>}
+        <table>
+            <thead><tr><th>#</th><th>Customer</th><th>Repeats</th><th>Next Invoice</th><th>Ends</th><th>Status</th></tr></thead>
+            <tbody>{templates.value.map(template => {
+                const status = recurringStatus(template);
+                return (<tr key={template.id} class={{ 'row-error': !!template.lastError }}>
+                    <td><Link href={`/recurring/${template.id}/`}>#{template.id}</Link></td>
+                    <td>{template.customerName}</td>
+                    <td>{FREQUENCY_LABELS[template.frequency]}</td>
+                    <td>{template.nextRunDate ?? '-'}{template.lastError && ' (failed, see details)'}</td>
+                    <td>{template.endDate ?? 'Never'}</td>
+                    <td><span class={`badge ${status}`}>{RECURRING_STATUS_LABELS[status]}</span></td>
+                </tr>)
+            })}</tbody>
+        </table>
+        {templates.value.length === 0 && <p>No recurring invoices yet.</p>}
+    </>;
+});
+
+export const head: DocumentHead = {
+    title: 'Recurring Invoices',
+};
@@ -0,0 +1,22 @@
+import type { RequestHandler } from '@builder.io/qwik-city';
+import { getBusinessProfile } from '~/lib/business';
+import { GSTR1_SECTIONS, gstr1Csv, gstr1FileName, gstr1Json, gstr1Report } from '~/lib/gstr1';
+import type { Gstr1Section } from '~/lib/gstr1';
+import { parseReportQuery } from '~/lib/reports';
+
+// GET /reports/gstr1?from=&to=&file= - the GSTR-1 tables of a period as a download: `file=json` for all of them
+// in one JSON file, or `b2b`, `b2cl` or `b2cs` for that table as CSV.
+export const onGet: RequestHandler = ({ url, env, send, error }) => {
+  const file = url.searchParams.get('file') ?? 'json';
+  if (file !== 'json' && !GSTR1_SECTIONS.includes(file as Gstr1Section)) throw error(404, 'Not found');
+  const { from, to } = parseReportQuery(url.searchParams);
+  const report = gstr1Report({ from, to }, getBusinessProfile(env));
+  const body = file === 'json' ? JSON.stringify(gstr1Json(report), null, 2) : gstr1Csv(file as Gstr1Section, report);
+  send(new Response(body, {
+    headers: {
+      'Content-Type': file === 'json' ? 'application/json; charset=utf-8' : 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${gstr1FileName(file as Gstr1Section | 'json', { from, to })}"`,
+      'Cache-Control': 'no-store',
+    },
+  }));
+};
@@ -0,0 +1,99 @@
+import { component$ } from '@builder.io/qwik';
+import type { DocumentHead } from '@builder.io/qwik-city';
+import { Link, routeLoader$, useLocation, useNavigate } from '@builder.io/qwik-city';
+import { formatMoney } from '~/lib/money';
+import { parseReportQuery, salesReport } from '~/lib/reports';
+import { useBusinessLoader } from '~/routes/layout';
+
+export const useSalesReportLoader = routeLoader$(({ url }) => salesReport(parseReportQuery(url.searchParams)));
+
+const GSTR1_FILES = [
+  { file: 'json', label: 'GSTR-1 JSON' },
+  { file: 'b2b', label: 'B2B CSV' },
+  { file: 'b2cl', label: 'B2CL CSV' },
+  { file: 'b2cs', label: 'B2CS CSV' },
+];
+
+export default component$(() => {
+    const report = useSalesReportLoader().value;
+    const business = useBusinessLoader().value;
+    const location = useLocation();
+    const nav = useNavigate();
+    const { query, summary, creditNotes } = report;
+    const range = `from=${query.from}&to=${query.to}`;
+    return <>
+        <h2>Reports</h2>
+        <form class="filters" preventdefault:submit onSubmit$={(_, form) => {
+            const params = new URLSearchParams();
+            for (const [key, value] of new FormData(form)) if (value) params.set(key, String(value));
+            nav(`${location.url.pathname}?${params}`);
+        }}>
+            <label>From:</label> <input name="from" type="date" value={query.from} />
+            <label>To:</label> <input name="to" type="date" value={query.to} />
+            <select name="groupBy">
+                <option value="day" selected={query.groupBy === 'day'}>By day</option>
+                <option value="month" selected={query.groupBy === 'month'}>By month</option>
+            </select>
+            <button type="submit">Show</button>
+        </form>
+        <p>Sales are the invoices issued in the period; drafts and cancelled invoices are left out.</p>
+
+        <div class="invoice-summary">
+            <div class="summary-row"><span>Invoices:</span> <span>{summary.invoices}</span></div>
+            <div class="summary-row"><span>Taxable Value:</span> <span>{formatMoney(summary.taxableAmount, business)}</span></div>
+            <div class="summary-row"><span>CGST:</span> <span>{formatMoney(summary.cgstAmount, business)}</span></div>
+            <div class="summary-row"><span>SGST:</span> <span>{formatMoney(summary.sgstAmount, business)}</span></div>
+            <div class="summary-row"><span>IGST:</span> <span>{formatMoney(summary.igstAmount, business)}</span></div>
+            <div class="summary-row total"><span>Sales:</span> <span>{formatMoney(summary.totalAmount, business)}</span></div>
+            {creditNotes.creditNotes > 0 && <>
+                <div class="summary-row"><span>Credit Notes ({creditNotes.creditNotes}, GST {formatMoney(creditNotes.cgstAmount + creditNotes.sgstAmount + creditNotes.igstAmount, business)}):</span> <span>-{formatMoney(creditNotes.totalAmount, business)}</span></div>
+                <div class="summary-row total"><span>Net Sales:</span> <span>{formatMoney(summary.totalAmount - creditNotes.totalAmount, business)}</span></div>
+            </>}
+        </div>
+
+        <div class="row-actions">
+            {GSTR1_FILES.map(({ file, label }) => <a key={file} class="button" href={`/reports/gstr1/?${range}&file=${file}`}>{label}</a>)}
+        </div>
+
+        <h3>Sales by {query.groupBy === 'day' ? 'Day' : 'Month'}</h3>
+        <table>
+            <thead><tr><th>{query.groupBy === 'day' ? 'Day' : 'Month'}</th><th>Invoices</th><th>Taxable</th><th>CGST</th><th>SGST</th><th>IGST</th><th>Total</th></tr></thead>
+            <tbody>{report.byPeriod.map(row => (<tr key={row.period}>
+                <td>{row.period}</td><td>{row.invoices}</td><td>{formatMoney(row.taxableAmount, business)}</td><td>{formatMoney(row.cgstAmount, business)}</td>
+                <td>{formatMoney(row.sgstAmount, business)}</td><td>{formatMoney(row.igstAmount, business)}</td><td>{formatMoney(row.totalAmount, business)}</td>
+            </tr>))}</tbody>
+        </table>
+        {report.byPeriod.length === 0 && <p>No invoices were issued in this period.</p>}
+
+        <h3>Tax by Rate</h3>
+        <table>
+            <thead><tr><th>Rate</th><th>Taxable</th><th>CGST</th><th>SGST</th><th>IGST</th><th>Total Tax</th></tr></thead>
+            <tbody>{report.byRate.map(row => (<tr key={row.rate}>
+                <td>{row.rate}%</td><td>{formatMoney(row.taxableAmount, business)}</td><td>{formatMoney(row.cgstAmount, business)}</td><td>{formatMoney(row.sgstAmount, business)}</td>
+                <td>{formatMoney(row.igstAmount, business)}</td><td>{formatMoney(row.cgstAmount + row.sgstAmount + row.igstAmount, business)}</td>
+            </tr>))}</tbody>
+        </table>
+
+        <h3>Sales by Customer</h3>
+        <table>
+            <thead><tr><th>Customer</th><th>GSTIN</th><th>Invoices</th><th>Taxable</th><th>GST</th><th>Total</th></tr></thead>
+            <tbody>{report.byCustomer.map(row => (<tr key={row.customerId}>
+                <td><Link href={`/customers/${row.customerId}/`}>{row.customerName}</Link></td><td>{row.customerGstin ?? '-'}</td><td>{row.invoices}</td>
+                <td>{formatMoney(row.taxableAmount, business)}</td><td>{formatMoney(row.cgstAmount + row.sgstAmount + row.igstAmount, business)}</td><td>{formatMoney(row.totalAmount, business)}</td>
+            </tr>))}</tbody>
+        </table>
+
+        <h3>Sales by Product</h3>
+        <table>
+            <thead><tr><th>Product</th><th>Quantity</th><th>Taxable</th><th>GST</th><th>Total</th></tr></thead>
+            <tbody>{report.byProduct.map(row => (<tr key={`${row.productId}-${row.unit}`}>
+                <td>{row.name}</td><td>{`${row.quantity} ${row.unit}`}</td><td>{formatMoney(row.taxableAmount, business)}</td>
+                <td>{formatMoney(row.cgstAmount + row.sgstAmount + row.igstAmount, business)}</td><td>{formatMoney(row.totalAmount, business)}</td>
+            </tr>))}</tbody>
+        </table>
+    </>;
+});
+
+export const head: DocumentHead = {
+    title: 'Reports',
+};
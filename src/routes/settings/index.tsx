@@ -0,0 +1,98 @@
+import { component$, useSignal, useTask$ } from '@builder.io/qwik';
+import type { DocumentHead } from '@builder.io/qwik-city';
+import { Form, routeAction$, routeLoader$, zod$ } from '@builder.io/qwik-city';
+import { useNotify } from '~/components/notification/notification';
+import { sessionActor, sessionUser } from '~/lib/auth';
+import { businessSettingsSchema, getBusinessProfile, saveBusinessSettings } from '~/lib/business';
+import { INDIAN_STATES } from '~/lib/gst';
+import { formatMoney } from '~/lib/money';
+import { FORBIDDEN_MESSAGE, can } from '~/lib/permissions';
+
+// The settings in effect: as last saved here, or from the environment until then.
+export const useSettingsLoader = routeLoader$(({ env, sharedMap, error }) => {
+  if (!can(sessionUser(sharedMap), 'settings.manage')) throw error(403, FORBIDDEN_MESSAGE);
+  const { name, address, gstin, stateCode, logo, bankName, bankAccountName, bankAccountNumber, bankIfsc, upiId, dueDays, currency, locale } = getBusinessProfile(env);
+  return { name, address, gstin, stateCode, logo, bankName, bankAccountName, bankAccountNumber, bankIfsc, upiId, dueDays, currency, locale };
+});
+
+export const useSaveSettingsAction = routeAction$((data, { sharedMap, fail }) => {
+  if (!can(sessionUser(sharedMap), 'settings.manage')) return fail(403, { message: FORBIDDEN_MESSAGE });
+  saveBusinessSettings(data, sessionActor(sharedMap));
+  return { success: true };
+}, zod$(businessSettingsSchema));
+
+export default component$(() => {
+    const settings = useSettingsLoader().value;
+    const saveAction = useSaveSettingsAction();
+    const notify = useNotify();
+    // The logo as a data URL: the saved one, a newly chosen file, or '' once removed.
+    const logo = useSignal(settings.logo ?? '');
+
+    useTask$(({ track }) => {
+        track(() => saveAction.value);
+        if (saveAction.value?.success) notify('Settings saved.', 'success');
+    });
+
+    const errors = saveAction.value?.fieldErrors;
+    return (<>
+        <h2>Settings</h2>
+        <p>
+            The business details, logo and payment details are printed on invoices and in the emails that send them.
+            A change of state or payment terms applies to invoices issued from now on.
+        </p>
+        <Form action={saveAction} class="form-group">
+            <h3>Business</h3>
+            <label>Business Name:</label> <input name="name" value={settings.name} required />
+            {errors?.name && <p class="field-error">{errors.name}</p>}
+            <label>Address:</label> <textarea name="address" rows={3} value={settings.address} />
+            <label>State:</label>
+            <select name="stateCode">
+                {INDIAN_STATES.map(s => <option key={s.code} value={s.code} selected={settings.stateCode === s.code}>{`${s.code} - ${s.name}`}</option>)}
+            </select>
+            <label>GSTIN:</label> <input name="gstin" value={settings.gstin} placeholder="Leave blank if not registered" />
+            {errors?.gstin && <p class="field-error">{errors.gstin}</p>}
+            <label>Logo (PNG or JPEG, up to 200 KB):</label>
+            {logo.value && <p><img class="logo" src={logo.value} alt="Logo" width={200} height={60} /></p>}
+            <div class="row-actions">
+                <input type="file" accept="image/png,image/jpeg" onChange$={async (_, input) => {
+                    const file = input.files?.[0];
+                    if (!file) return;
+                    logo.value = await new Promise<string>(resolve => {
+                        const reader = new FileReader();
+                        reader.onload = () => resolve(String(reader.result));
+                        reader.readAsDataURL(file);
+                    });
+                }} />
+                {logo.value && <button type="button" class="danger" onClick$={() => logo.value = ''}>Remove Logo</button>}
+            </div>
+            <input type="hidden" name="logo" value={logo.value} />
+            {errors?.logo && <p class="field-error">{errors.logo}</p>}
+
+            <h3>Payment</h3>
+            <label>Payment Due (days after the invoice date):</label> <input name="dueDays" type="number" min="0" max="365" value={settings.dueDays} required />
+            {errors?.dueDays && <p class="field-error">{errors.dueDays}</p>}
+            <label>Bank Name:</label> <input name="bankName" value={settings.bankName} />
+            <label>Account Name:</label> <input name="bankAccountName" value={settings.bankAccountName} />
+            <label>Account Number:</label> <input name="bankAccountNumber" value={settings.bankAccountNumber} inputMode="numeric" />
+            {errors?.bankAccountNumber && <p class="field-error">{errors.bankAccountNumber}</p>}
+            <label>IFSC:</label> <input name="bankIfsc" value={settings.bankIfsc} />
+            {errors?.bankIfsc && <p class="field-error">{errors.bankIfsc}</p>}
+            <label>UPI ID:</label> <input name="upiId" value={settings.upiId} placeholder="e.g. business@okbank" />
+            {errors?.upiId && <p class="field-error">{errors.upiId}</p>}
+
+            <h3>Currency</h3>
+            <label>Currency (ISO code):</label> <input name="currency" value={settings.currency} maxLength={3} required />
+            {errors?.currency && <p class="field-error">{errors.currency}</p>}
+            <label>Locale:</label> <input name="locale" value={settings.locale} placeholder="e.g. en-IN" required />
+            {errors?.locale && <p class="field-error">{errors.locale}</p>}
+            <p>Amounts are shown like {formatMoney(12345678, settings)}.</p>
+
+            {saveAction.value?.failed && saveAction.value.message && <div class="notification error">{saveAction.value.message}</div>}
+            <button type="submit">Save Settings</button>
+        </Form>
+    </>);
+});
+
+export const head: DocumentHead = {
+    title: 'Settings',
+};
@@ -0,0 +1,12 @@
+import type { RequestHandler } from '@builder.io/qwik-city';
+import { findBusinessSettings } from '~/lib/business';
+
+// GET /settings/logo - the logo from the business settings, for the page header.
+export const onGet: RequestHandler = ({ send, error }) => {
+  const match = findBusinessSettings()?.logo?.match(/^data:(image\/(?:png|jpeg));base64,(.*)$/);
+  if (!match) throw error(404, 'No logo has been uploaded');
+
+  send(new Response(Buffer.from(match[2], 'base64'), {
+    headers: { 'Content-Type': match[1], 'Cache-Control': 'no-cache' },
+  }));
+};
@@ -0,0 +1,119 @@
+import { component$, useSignal, useTask$ } from '@builder.io/qwik';
+import type { DocumentHead } from '@builder.io/qwik-city';
+import { Form, routeAction$, routeLoader$, z, zod$ } from '@builder.io/qwik-city';
+import { useNotify } from '~/components/notification/notification';
+import { UserError, changeUserRole, createUser, disableUser, enableUser, isUsernameTaken, listUsers, passwordInputSchema, sessionActor, sessionUser, setPassword, userInputSchema } from '~/lib/auth';
+import { FORBIDDEN_MESSAGE, ROLES, ROLE_LABELS, can } from '~/lib/permissions';
+
+export const useUsersLoader = routeLoader$(({ sharedMap, error }) => {
+    if (!can(sessionUser(sharedMap), 'users.manage')) throw error(403, FORBIDDEN_MESSAGE);
+    return listUsers();
+});
+
+export const useAddUserAction = routeAction$((data, { sharedMap, fail }) => {
+    if (!can(sessionUser(sharedMap), 'users.manage')) return fail(403, { message: FORBIDDEN_MESSAGE });
+    if (isUsernameTaken(data.username)) return fail(400, { message: 'Please correct the highlighted fields.', fieldErrors: { username: 'This username is taken.' } });
+    return { success: true, id: createUser(data, sessionActor(sharedMap)) };
+}, zod$(userInputSchema));
+
+// `role` changes the user's role; `disable` stops them logging in and `enable` lets them back in.
+export const useUpdateUserAction = routeAction$((data, { sharedMap, fail }) => {
+    if (!can(sessionUser(sharedMap), 'users.manage')) return fail(403, { message: FORBIDDEN_MESSAGE });
+    try {
+        const actor = sessionActor(sharedMap);
+        const found = data.intent === 'role' ? changeUserRole(data.id, data.role ?? 'viewer', actor)
+            : data.intent === 'disable' ? disableUser(data.id, actor) : enableUser(data.id, actor);
+        return found ? { success: true } : fail(404, { message: 'User not found.' });
+    } catch (error) {
+        if (error instanceof UserError) return fail(409, { message: error.message });
+        throw error;
+    }
+}, zod$({ id: z.coerce.number().int().positive(), intent: z.enum(['role', 'disable', 'enable']), role: z.enum(['admin', 'cashier', 'viewer']).optional() }));
+
+export const useResetPasswordAction = routeAction$((data, { sharedMap, fail }) => {
+    if (!can(sessionUser(sharedMap), 'users.manage')) return fail(403, { message: FORBIDDEN_MESSAGE });
+    return setPassword(data.id, data.password, sessionActor(sharedMap)) ? { success: true } : fail(404, { message: 'User not found.' });
+}, zod$(passwordInputSchema.extend({ id: z.coerce.number().int().positive() })));
+
+export default component$(() => {
+    const users = useUsersLoader();
+    const addUserAction = useAddUserAction();
+    const updateUserAction = useUpdateUserAction();
+    const resetPasswordAction = useResetPasswordAction();
+    const notify = useNotify();
+    const resettingId = useSignal<number | null>(null);
+    const resetting = users.value.find(u => u.id === resettingId.value);
+
+    useTask$(({ track }) => {
+        track(() => resetPasswordAction.value);
+        if (resetPasswordAction.value?.success) {
+            resettingId.value = null;
+            notify('Password changed. The user has been logged out everywhere.', 'success');
+        }
+    });
+    useTask$(({ track }) => {
+        track(() => addUserAction.value);
+        if (addUserAction.value?.success) notify('User added.', 'success');
+    });
+
+    const addErrors = addUserAction.value?.fieldErrors;
+    return (<>
+        <h2>Users</h2>
+        <p>Admins manage products, stock, cancellations and users. Cashiers add customers, create invoices and record payments and returns. Viewers can only look.</p>
+        {updateUserAction.value?.failed && <div class="notification error">{updateUserAction.value.message}</div>}
+        <table>
+            <thead><tr><th>Name</th><th>Username</th><th>Role</th><th>Status</th><th>Action</th></tr></thead>
+            <tbody>{users.value.map(u => (<tr key={u.id}>
+                <td>{u.name}</td>
+                <td>{u.username}</td>
+                <td>
+                    <Form action={updateUserAction} class="row-actions">
+                        <input type="hidden" name="id" value={u.id} />
+                        <input type="hidden" name="intent" value="role" />
+                        <select name="role" onChange$={(_, select) => select.form?.requestSubmit()}>
+                            {ROLES.map(role => <option key={role} value={role} selected={u.role === role}>{ROLE_LABELS[role]}</option>)}
+                        </select>
+                    </Form>
+                </td>
+                <td>{u.disabledAt ? <span class="badge">Disabled</span> : 'Active'}</td>
+                <td class="row-actions">
+                    <button onClick$={() => resettingId.value = u.id}>Reset Password</button>
+                    <Form action={updateUserAction}>
+                        <input type="hidden" name="id" value={u.id} />
+                        <input type="hidden" name="intent" value={u.disabledAt ? 'enable' : 'disable'} />
+                        <button type="submit" class={u.disabledAt ? undefined : 'danger'}>{u.disabledAt ? 'Enable' : 'Disable'}</button>
+                    </Form>
+                </td>
+            </tr>))}</tbody>
+        </table>
+        {resetting && <>
+            <h3>Reset Password: {resetting.name}</h3>
+            <Form key={resetting.id} action={resetPasswordAction} class="form-group">
+                <input type="hidden" name="id" value={resetting.id} />
+                <label>New Password:</label> <input name="password" type="password" required autoComplete="new-password" />
+                {resetPasswordAction.value?.fieldErrors?.password && <p class="field-error">{resetPasswordAction.value.fieldErrors.password}</p>}
+                <button type="submit">Change Password</button>
+                <button type="button" onClick$={() => resettingId.value = null}>Cancel</button>
+            </Form>
+        </>}
+        <h3>Add User</h3>
+        <Form action={addUserAction} class="form-group">
+            <label>Name:</label> <input name="name" required />
+            {addErrors?.name && <p class="field-error">{addErrors.name}</p>}
+            <label>Username:</label> <input name="username" required autoComplete="off" />
+            {addErrors?.username && <p class="field-error">{addErrors.username}</p>}
+            <label>Password:</label> <input name="password" type="password" required autoComplete="new-password" />
+            {addErrors?.password && <p class="field-error">{addErrors.password}</p>}
+            <label>Role:</label>
+            <select name="role">
+                {ROLES.map(role => <option key={role} value={role} selected={role === 'cashier'}>{ROLE_LABELS[role]}</option>)}
+            </select>
+            {addUserAction.value?.failed && addUserAction.value.message && <div class="notification error">{addUserAction.value.message}</div>}
+            <button type="submit">Add User</button>
+        </Form>
+    </>);
+});
+
+export const head: DocumentHead = {
+    title: 'Users',
+};